@@ -0,0 +1,32 @@
+import type { InvariantInput, InvariantResult, Message } from '../tondebug/tondebug.js';
+
+// Для contracts/race_condition_wallet.fc: деньги, которые CLAIM списал с total, должны уйти с контракта.
+// Контракт обнуляет total, но владельцу ничего не отправляет --- такой порядок нарушает инвариант
+const CONTRACT = 'race_condition_wallet';
+const OP_ENLIST = 1;
+const FEE_MARGIN = 100000000n; // 0.1 TON на комиссии отскоков
+
+function op(msg: Message): number | undefined {
+  const body = msg.body.beginParse();
+  return body.remainingBits >= 32 ? body.loadUint(32) : undefined;
+}
+
+export function invariant(input: InvariantInput): InvariantResult {
+  const result = input.contracts[CONTRACT].getters['get_state'];
+  if (!result) {
+    return { pass: false, reason: 'get_state failed' };
+  }
+
+  let deposited = 0n;
+  let paidOut = 0n;
+  for (const msg of input.order) {
+    if (msg.parent?.contract === CONTRACT) {
+      paidOut += msg.value?.coins ?? 0n;
+    } else if (!msg.parent && op(msg) === OP_ENLIST) {
+      deposited += msg.value?.coins ?? 0n;
+    }
+  }
+
+  const claimed = deposited - BigInt(result[0] as bigint);
+  return { pass: paidOut + FEE_MARGIN >= claimed, reason: `${claimed} taken from total, ${paidOut} paid out` };
+}
@@ -1,9 +1,10 @@
 /**
  * @param {import('../tondebug/tondebug.ts').Message[]} queue
+ * @param {() => number} random сидированный генератор консоли (set seed / --seed)
  */
-export function modifyQueue(queue) {
+export function modifyQueue(queue, random) {
     for (let i = queue.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(random() * (i + 1));
       [queue[i], queue[j]] = [queue[j], queue[i]];
     }
 }
@@ -255,9 +255,9 @@ async function saveContractState(filename: string, state: Promise<ContractState>
 
     const serializableState = {
         balance: resolvedState.balance.toString(),
-        extracurrency: resolvedState.extracurrency ? {
-            ...resolvedState.extracurrency,
-        } : null,
+        extracurrency: resolvedState.extracurrency ? Object.fromEntries(
+            Object.entries(resolvedState.extracurrency).map(([id, amount]) => [id, amount.toString()])
+        ) : null,
         last: resolvedState.last ? {
             lt: resolvedState.last.lt.toString(),
             hash: resolvedState.last.hash.toString('hex')
@@ -307,6 +307,11 @@ function compareContractStates(file1Path: string, file2Path: string) {
         flag = false;
     }
 
+    if (JSON.stringify(state1.extracurrency ?? {}) !== JSON.stringify(state2.extracurrency ?? {})) {
+        console.log(`Extracurrencies are different: ${JSON.stringify(state1.extracurrency)} vs ${JSON.stringify(state2.extracurrency)}`);
+        flag = false;
+    }
+
     if (state1.state.type !== state2.state.type) {
         console.log(`State types are different: ${state1.state.type} vs ${state2.state.type}`);
         flag = false;
@@ -336,6 +341,4 @@ function compareContractStates(file1Path: string, file2Path: string) {
     } else {
         console.log("Contract states are not different")
     }
-    //TODO:
-    //нужно еще добавить сравнение extracurrency
 }
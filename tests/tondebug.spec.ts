@@ -0,0 +1,207 @@
+import { beginCell } from "@ton/core";
+import { ddmin, reorderTowardsIds, parseFuncGetters, splitFuncTypes, parseVmLog, parseStateFile, parseMessageEnvelope } from "../tondebug/tondebug";
+
+// "Падение" задаётся предикатом над списком id, число вызовов считаем как число перезапусков
+function predicate(check: (ids: number[]) => boolean) {
+    const calls: number[][] = [];
+    const fails = async (candidate: { id: number }[]) => {
+        const ids = candidate.map(m => m.id);
+        calls.push(ids);
+        return check(ids);
+    };
+    return { fails, calls };
+}
+
+const messages = (ids: number[]) => ids.map(id => ({ id }));
+
+describe("minimize: ddmin", () => {
+
+    it("keeps the single message that causes the failure", async () => {
+        const { fails } = predicate(ids => ids.includes(13));
+        const result = await ddmin(messages([...Array(33).keys()].map(i => i + 1)), fails);
+        expect(result.map(m => m.id)).toEqual([13]);
+    });
+
+    it("keeps a pair of distant messages that fail only together", async () => {
+        const { fails } = predicate(ids => ids.includes(2) && ids.includes(7));
+        const result = await ddmin(messages([1, 2, 3, 4, 5, 6, 7, 8]), fails);
+        expect(result.map(m => m.id)).toEqual([2, 7]);
+    });
+
+    it("returns an empty queue when the failure needs no messages", async () => {
+        const { fails } = predicate(() => true);
+        const result = await ddmin(messages([1, 2, 3, 4]), fails);
+        expect(result).toEqual([]);
+    });
+
+    it("does not change a queue where every message is needed", async () => {
+        const { fails } = predicate(ids => ids.length === 3);
+        const result = await ddmin(messages([1, 2, 3]), fails);
+        expect(result.map(m => m.id)).toEqual([1, 2, 3]);
+    });
+
+    it("never replays the whole queue or repeats the empty one", async () => {
+        const { fails, calls } = predicate(ids => ids.includes(5));
+        await ddmin(messages([1, 2, 3, 4, 5, 6, 7, 8]), fails);
+        expect(calls.some(ids => ids.length === 8)).toBe(false);
+        expect(calls.filter(ids => ids.length === 0).length).toBeLessThanOrEqual(1);
+    });
+
+    it("reports every reduction", async () => {
+        const { fails } = predicate(ids => ids.includes(3));
+        const steps: string[] = [];
+        await ddmin(messages([1, 2, 3, 4]), fails, (from, to) => steps.push(`${from}->${to}`));
+        expect(steps).toEqual(["4->2", "2->1"]);
+    });
+});
+
+describe("minimize: reorderTowardsIds", () => {
+
+    it("sorts by id when the order does not matter", async () => {
+        const { fails } = predicate(() => true);
+        const result = await reorderTowardsIds(messages([4, 3, 2, 1]), fails);
+        expect(result.map(m => m.id)).toEqual([1, 2, 3, 4]);
+    });
+
+    it("keeps only the inversion the failure depends on", async () => {
+        // падает, только если 4 исполнено раньше 2
+        const check = (ids: number[]) => ids.indexOf(4) < ids.indexOf(2);
+        const { fails } = predicate(check);
+        const ids = (await reorderTowardsIds(messages([4, 3, 2, 1]), fails)).map(m => m.id);
+        expect(check(ids)).toBe(true);
+        // любая оставшаяся инверсия соседей нужна для падения
+        for (let i = 0; i + 1 < ids.length; i++) {
+            if (ids[i] > ids[i + 1]) {
+                const swapped = [...ids];
+                [swapped[i], swapped[i + 1]] = [swapped[i + 1], swapped[i]];
+                expect(check(swapped)).toBe(false);
+            }
+        }
+        expect(ids[0]).toBe(1);
+    });
+
+    it("does not replay an already ordered queue", async () => {
+        const { fails, calls } = predicate(() => true);
+        await reorderTowardsIds(messages([1, 2, 3]), fails);
+        expect(calls).toEqual([]);
+    });
+});
+
+describe("FunC getters discovery", () => {
+
+    it("finds getters and skips commented-out and non-getter functions", () => {
+        const getters = parseFuncGetters(`
+            ;; (int) commented() method_id { return 1; }
+            {- (int) block_commented() method_id {
+               return 2; } -}
+            (int, slice) get_state() method_id { return _load_state(); }
+            cell helper() inline { return get_data(); }
+        `);
+        expect(getters).toEqual([{ name: "get_state", returnTypes: ["int", "slice"], params: [] }]);
+    });
+
+    it("accepts method_id(n) and specifiers before it", () => {
+        const getters = parseFuncGetters(`
+            int seqno() method_id(85143) { return 0; }
+            slice owner() impure inline method_id { return null(); }
+        `);
+        expect(getters.map(g => [g.name, g.returnTypes])).toEqual([["seqno", ["int"]], ["owner", ["slice"]]]);
+    });
+
+    it("keeps nested tensors and tuples as single return types", () => {
+        const [getter] = parseFuncGetters(`((int, int), [cell, slice]) get_nested() method_id { }`);
+        expect(getter.returnTypes).toEqual(["(int, int)", "[cell, slice]"]);
+
+        const [tuple] = parseFuncGetters(`[int, [int, int]] get_tuple() method_id { }`);
+        expect(tuple.returnTypes).toEqual(["[int, [int, int]]"]);
+    });
+
+    it("parses typed parameters, including tensor types", () => {
+        const [getter] = parseFuncGetters(`int balance_of(slice owner, (int, cell) pair) method_id { }`);
+        expect(getter.params).toEqual([{ type: "slice", name: "owner" }, { type: "(int, cell)", name: "pair" }]);
+    });
+
+    it("splits only on top-level commas", () => {
+        expect(splitFuncTypes("int, (int, slice), [cell, [int, int]]")).toEqual(["int", "(int, slice)", "[cell, [int, int]]"]);
+        expect(splitFuncTypes("  ")).toEqual([]);
+    });
+});
+
+describe("VM log parsing", () => {
+
+    it("groups stack, location and gas around each instruction and keeps exception lines", () => {
+        const steps = parseVmLog([
+            "stack: [ 0 ]",
+            "code cell hash: AB offset: 0",
+            "execute SETCP 0",
+            "gas remaining: 999",
+            "",
+            "stack: [ ]",
+            "code cell hash: AB offset: 16",
+            "execute THROW 5",
+            "handling exception code 5: integer out of range",
+            "default exception handler, terminating vm with exit code 5",
+        ].join("\n"));
+
+        expect(steps).toEqual([
+            { instruction: "SETCP 0", stack: "[ 0 ]", location: "AB offset: 0", gasRemaining: "999", notes: [] },
+            {
+                instruction: "THROW 5", stack: "[ ]", location: "AB offset: 16", notes: [
+                    "handling exception code 5: integer out of range",
+                    "default exception handler, terminating vm with exit code 5",
+                ]
+            },
+        ]);
+    });
+
+    it("returns no steps for an empty log", () => {
+        expect(parseVmLog("")).toEqual([]);
+    });
+});
+
+describe("state files", () => {
+    const cell = beginCell().storeUint(7, 8).endCell();
+
+    it("reads flat and nested state with hex or base64 cells", () => {
+        const flat = parseStateFile({ balance: "5", code: cell.toBoc().toString("hex"), data: cell.toBoc().toString("base64") });
+        expect(flat.balance).toBe(5n);
+        expect(flat.code?.equals(cell)).toBe(true);
+        expect(flat.data?.equals(cell)).toBe(true);
+
+        const nested = parseStateFile({ state: { type: "frozen", stateHash: "AA".repeat(32), duePayment: 3 } });
+        expect(nested).toEqual({ type: "frozen", stateHash: "aa".repeat(32), duePayment: 3n });
+    });
+
+    it.each([
+        [{ balance: "-1" }, /balance must not be negative/],
+        [{ type: "deleted" }, /type must be active, frozen or uninit/],
+        [{ code: "not a boc" }, /code is not a valid BOC/],
+        [{ type: "uninit", data: cell.toBoc().toString("hex") }, /uninit account cannot have code or data/],
+        [{ stateHash: "aa".repeat(32) }, /stateHash is only allowed for frozen accounts/],
+        [{ type: "frozen", stateHash: "abc" }, /stateHash must be 64 hex characters/],
+        [{ extracurrency: { "1": "-5" } }, /amount of currency 1/],
+        [{ libraries: { ["00".repeat(32)]: cell.toBoc().toString("hex") } }, /does not match its cell hash/],
+    ])("rejects malformed state %j", (raw, error) => {
+        expect(() => parseStateFile(raw)).toThrow(error);
+    });
+});
+
+describe("queue message envelope", () => {
+
+    it("reads optional envelope fields", () => {
+        expect(parseMessageEnvelope({ bounce: false, forwardFee: "10", createdLt: 5, createdAt: 1700000000, delaySeconds: 60 }, 3))
+            .toEqual({ bounce: false, forwardFee: 10n, createdLt: 5n, createdAt: 1700000000, delaySeconds: 60 });
+        expect(parseMessageEnvelope({}, 1)).toEqual({});
+    });
+
+    it.each([
+        [{ bounce: "yes" }, /"bounce" must be a boolean/],
+        [{ forwardFee: (2n ** 120n).toString() }, /"forwardFee" must be a non-negative integer below 2\^120/],
+        [{ createdLt: (2n ** 64n).toString() }, /"createdLt" must be a non-negative integer below 2\^64/],
+        [{ createdLt: -1 }, /"createdLt" must be a non-negative integer/],
+        [{ createdAt: 2 ** 32 }, /"createdAt" must be a unix time/],
+        [{ delaySeconds: 1.5 }, /"delaySeconds" must be a non-negative integer/],
+    ])("rejects %j", (raw, error) => {
+        expect(() => parseMessageEnvelope(raw, 4)).toThrow(error);
+    });
+});
@@ -0,0 +1,334 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { spawn } from "child_process";
+import { beginCell, Cell, Dictionary } from "@ton/core";
+import { configParseGasLimitsPrices, configParseMsgPrices } from "@ton/ton";
+import { Blockchain } from "@ton/sandbox";
+import { compileFunc } from "@ton-community/func-js";
+import {
+    TONDebugConsole, DebugConsoleOptions, loadMessageQueue, parseFuncGetters, parseStateFile,
+    applyConfigOverlay, storeGasLimitsPrices, storeMsgPrices
+} from "../tondebug/tondebug";
+
+jest.setTimeout(300000);
+
+const RC_WALLET = path.resolve("contracts/race_condition_wallet.fc");
+const RC_QUEUE = path.resolve("test_materials/rc_wallet_msg.json");
+const ENLIST = "te6ccgEBAQEABgAACAAAAAE=";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "tondebug-"));
+afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+// Компилируем сами, а не через compileContract: тот пишет артефакт в tmp/ репозитория
+const compiled = new Map<string, { codeCell: Cell; getters: ReturnType<typeof parseFuncGetters> }>();
+async function compile(contract: string) {
+    if (!compiled.has(contract)) {
+        const result = await compileFunc({ targets: [contract], sources: (x) => fs.readFileSync(x).toString("utf8") });
+        if (result.status === "error") {
+            throw new Error(result.message);
+        }
+        compiled.set(contract, {
+            codeCell: Cell.fromBoc(Buffer.from(result.codeBoc, "base64"))[0],
+            getters: result.snapshot.flatMap(source => parseFuncGetters(source.content)),
+        });
+    }
+    return compiled.get(contract)!;
+}
+
+function writeJson(name: string, value: unknown): string {
+    const file = path.join(tmp, name);
+    fs.writeFileSync(file, JSON.stringify(value, null, 2));
+    return file;
+}
+
+// Сессия как после запуска tondebug --contract ... --queue ..., только без консоли
+async function session(contract: string, queuePath?: string, extra: Partial<DebugConsoleOptions> = {}) {
+    const { codeCell, getters } = await compile(contract);
+    const debug = new TONDebugConsole({
+        contracts: [{ alias: path.basename(contract, ".fc"), codeCell, getters }],
+        initialQueue: queuePath ? await loadMessageQueue(queuePath) : undefined,
+        ...extra,
+    });
+    await debug.setup();
+    return debug;
+}
+
+// data контракта по умолчанию, как её пишет save state
+async function contractData(debug: TONDebugConsole): Promise<string | undefined> {
+    return (await debug["serializeState"]()).data;
+}
+
+let output: jest.SpyInstance;
+beforeEach(() => {
+    output = jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "table").mockImplementation(() => {});
+});
+afterEach(() => jest.restoreAllMocks());
+
+// Всё, что консоль напечатала, без цветов
+function printed(): string {
+    return output.mock.calls.map(args => args.join(" ")).join("\n").replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+describe("message cascades", () => {
+
+    it("enqueues outbound messages with a link to the producing transaction", async () => {
+        const debug = await session(path.resolve("contracts/self_ping.fc"), path.resolve("test_materials/queue.json"));
+        const queued = debug["queue"].length;
+
+        await debug.handleCommand("run next");
+
+        const [tx] = debug["transactions"];
+        const produced = debug["queue"].filter(m => m.parent === tx);
+        expect(tx.transaction.outMessagesCount).toBeGreaterThan(0);
+        expect(produced.length).toBe(tx.transaction.outMessagesCount);
+        expect(debug["queue"].length).toBe(queued - 1 + produced.length);
+    });
+});
+
+describe("breakpoints", () => {
+
+    it("stops before the queue head and runs it on the next continue", async () => {
+        const debug = await session(RC_WALLET, RC_QUEUE);
+        await debug.handleCommand("break message 1");
+
+        await debug.handleCommand("continue");
+        expect(debug["transactions"].length).toBe(0);
+        expect(debug["queue"][0].id).toBe(1);
+
+        await debug.handleCommand("continue");
+        expect(debug["executedMessages"].map(m => m.id)).toEqual([1, 2, 3, 4]);
+        expect(debug["queue"]).toEqual([]);
+    });
+
+    it("checks the next message after a state breakpoint stop", async () => {
+        const debug = await session(RC_WALLET, RC_QUEUE);
+        await debug.handleCommand("break sender 2");
+        await debug.handleCommand("break getter get_state");
+
+        // 1 от sender 2: остановка до него, затем после него по геттеру
+        await debug.handleCommand("continue");
+        expect(debug["executedMessages"].map(m => m.id)).toEqual([]);
+        await debug.handleCommand("continue");
+        expect(debug["executedMessages"].map(m => m.id)).toEqual([1]);
+
+        // 2 от sender 1 меняет состояние, следующее за ним 3 от sender 2 исполниться не должно
+        await debug.handleCommand("continue");
+        expect(debug["executedMessages"].map(m => m.id)).toEqual([1, 2]);
+        await debug.handleCommand("continue");
+        expect(debug["executedMessages"].map(m => m.id)).toEqual([1, 2]);
+        expect(debug["queue"][0].id).toBe(3);
+    });
+});
+
+describe("rewind and branches", () => {
+
+    it("rewind restores the blockchain, queue and logs from before step N", async () => {
+        const debug = await session(RC_WALLET, RC_QUEUE);
+        await debug.handleCommand("run next");
+        const afterFirst = await contractData(debug);
+        await debug.handleCommand("run next");
+        await debug.handleCommand("run next");
+
+        await debug.handleCommand("rewind 2");
+
+        expect(debug["executedMessages"].map(m => m.id)).toEqual([1]);
+        expect(debug["transactions"].length).toBe(1);
+        expect(debug["queue"].map(m => m.id)).toEqual([2, 3, 4]);
+        expect(await contractData(debug)).toBe(afterFirst);
+    });
+
+    it("branch switch brings back each branch's session", async () => {
+        const debug = await session(RC_WALLET, RC_QUEUE);
+        await debug.handleCommand("run next");
+        const forked = await contractData(debug);
+        await debug.handleCommand("branch create alt");
+        await debug.handleCommand("continue");
+        const finished = await contractData(debug);
+
+        await debug.handleCommand("branch switch alt");
+        expect(debug["transactions"].length).toBe(1);
+        expect(debug["queue"].map(m => m.id)).toEqual([2, 3, 4]);
+        expect(await contractData(debug)).toBe(forked);
+
+        await debug.handleCommand("branch switch main");
+        expect(debug["queue"]).toEqual([]);
+        expect(await contractData(debug)).toBe(finished);
+    });
+});
+
+describe("bounces and sender wallets", () => {
+    // 5 TON не помещаются в uint32 total: compute фаза падает, и сообщение отскакивает
+    const overflow = { id: 1, type: "internal", body: ENLIST, value: { coins: "5000000000" }, senderId: 1, name: "ENLIST 5 TON" };
+
+    it("enqueues the bounce of a failed bounceable message", async () => {
+        const debug = await session(RC_WALLET, writeJson("overflow.json", [overflow]));
+        const sender = debug["queue"][0].sender;
+
+        await debug.handleCommand("run next");
+
+        const [bounce] = debug["queue"];
+        expect(debug["queue"].length).toBe(1);
+        expect(bounce.bounced).toBe(true);
+        expect(bounce.name).toBe("bounce of message 1");
+        expect(bounce.dest?.equals(sender)).toBe(true);
+        expect(bounce.body.beginParse().loadUint(32)).toBe(0xffffffff);
+    });
+
+    it("drops the bounce with set bounce off", async () => {
+        const debug = await session(RC_WALLET, writeJson("overflow.json", [overflow]));
+        await debug.handleCommand("set bounce off");
+
+        await debug.handleCommand("run next");
+
+        expect(debug["transactions"].length).toBe(1);
+        expect(debug["queue"]).toEqual([]);
+    });
+
+    it("debits the sender wallet and credits the bounce back to it", async () => {
+        const enlist = { ...overflow, id: 2, value: { coins: "1000000000" }, name: "ENLIST 1 TON" };
+        const debug = await session(RC_WALLET, writeJson("debit.json", [enlist, overflow]));
+        const sender = debug["queue"][0].sender;
+        const balance = async () => (await debug["blockchain"].getContract(sender)).balance;
+        const start = await balance();
+
+        await debug.handleCommand("run next");
+        expect(await balance()).toBe(start - 1000000000n);
+
+        await debug.handleCommand("run next");
+        expect(await balance()).toBe(start - 6000000000n);
+
+        // отскок исполняется на кошельке и возвращает почти всё, кроме комиссий
+        await debug.handleCommand("run next");
+        expect(debug["transactions"][2].message.bounced).toBe(true);
+        expect(await balance()).toBeGreaterThan(start - 1100000000n);
+        expect(await balance()).toBeLessThan(start - 1000000000n);
+    });
+});
+
+describe("deterministic sessions", () => {
+    // Настоящий CLI в отдельном процессе: адреса отправителей фиксируются при чтении очереди
+    function runCli(args: string[], commands: string[], cwd: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const bin = require.resolve("ts-node/dist/bin.js");
+            const child = spawn(process.execPath, [bin, "--transpile-only", path.resolve("tondebug/tondebug.ts"), ...args], { cwd });
+            let stdout = "";
+            const pending = [...commands, "exit"];
+            child.stdout.on("data", chunk => {
+                stdout += chunk;
+                if (stdout.endsWith("tondebug> ") && pending.length > 0) {
+                    child.stdin.write(pending.shift() + "\n");
+                }
+            });
+            child.on("error", reject);
+            child.on("close", () => resolve(stdout));
+        });
+    }
+
+    it("saves byte-identical states for the same order in two runs", async () => {
+        const states: Buffer[] = [];
+        for (const run of ["first", "second"]) {
+            const cwd = fs.mkdtempSync(path.join(tmp, `${run}-`));
+            const out = path.join(cwd, "state.json");
+            await runCli(["--contract", RC_WALLET, "--queue", RC_QUEUE, "--deterministic"], ["continue", `save state ${out}`], cwd);
+            states.push(fs.readFileSync(out));
+        }
+
+        expect(JSON.parse(states[0].toString()).last).not.toBeNull();
+        expect(states[1].equals(states[0])).toBe(true);
+    });
+});
+
+describe("blockchain config overlay", () => {
+
+    it("stores parsed gas and forwarding prices back into identical cells", async () => {
+        const config = (await Blockchain.create()).config;
+        const params = Dictionary.loadDirect(Dictionary.Keys.Int(32), Dictionary.Values.Cell(), config);
+
+        for (const id of [20, 21]) {
+            const cell = params.get(id)!;
+            expect(storeGasLimitsPrices(configParseGasLimitsPrices(cell.beginParse())).equals(cell)).toBe(true);
+        }
+        for (const id of [24, 25]) {
+            const cell = params.get(id)!;
+            expect(storeMsgPrices(configParseMsgPrices(cell.beginParse())).equals(cell)).toBe(true);
+        }
+        expect(applyConfigOverlay(config, {}).equals(config)).toBe(true);
+    });
+
+    it("changes only the overlaid fields", async () => {
+        const config = (await Blockchain.create()).config;
+        const param = (cell: Cell, id: number) =>
+            Dictionary.loadDirect(Dictionary.Keys.Int(32), Dictionary.Values.Cell(), cell).get(id)!.beginParse();
+
+        const updated = applyConfigOverlay(config, {
+            gasPrices: { basechain: { gasPrice: "52428800", flatLimit: 200 } },
+            msgPrices: { basechain: { lumpPrice: "1000000" } },
+        });
+
+        const gasBefore = configParseGasLimitsPrices(param(config, 21));
+        const gasAfter = configParseGasLimitsPrices(param(updated, 21));
+        expect(gasAfter).toEqual({ ...gasBefore, flatLimit: 200n, other: { ...gasBefore.other, gasPrice: 52428800n } });
+        expect(configParseMsgPrices(param(updated, 25))).toEqual({ ...configParseMsgPrices(param(config, 25)), lumpPrice: 1000000n });
+        expect(param(updated, 20).asCell().equals(param(config, 20).asCell())).toBe(true);
+    });
+
+    it("rejects unknown fields", async () => {
+        const config = (await Blockchain.create()).config;
+        expect(() => applyConfigOverlay(config, { gasPrices: { basechain: { gasPrise: 1 } } })).toThrow(/Unknown config field gasPrices.basechain.gasPrise/);
+    });
+});
+
+describe("extra currencies and libraries in state files", () => {
+
+    it("installs, resolves and saves them so the file loads into a new session", async () => {
+        const { codeCell } = await compile(RC_WALLET);
+        const hash = codeCell.hash().toString("hex");
+        const libraryRef = beginCell().storeUint(2, 8).storeBuffer(codeCell.hash()).endCell({ exotic: true });
+        const initialState = parseStateFile({
+            balance: "1000000000",
+            code: libraryRef.toBoc().toString("hex"),
+            extracurrency: { "7": "12345" },
+            libraries: { [hash]: codeCell.toBoc().toString("base64") },
+        });
+
+        const debug = await session(RC_WALLET, undefined, { contracts: [{ alias: "race_condition_wallet", codeCell, getters: [], initialState }] });
+        await debug.handleCommand("run get-method get_state");
+        expect(printed()).toMatch(/Exit Code: 0/);
+
+        const first = path.join(tmp, "lib_state.json");
+        await debug.handleCommand(`save state ${first}`);
+        const saved = JSON.parse(fs.readFileSync(first, "utf8"));
+        expect(saved.extracurrency).toEqual({ "7": "12345" });
+        expect(Object.keys(saved.libraries)).toEqual([hash]);
+        expect(Cell.fromBoc(Buffer.from(saved.code, "hex"))[0].equals(libraryRef)).toBe(true);
+
+        // тот же файл в новой сессии даёт то же состояние
+        const reloaded = await session(RC_WALLET, undefined, {
+            contracts: [{ alias: "race_condition_wallet", codeCell, getters: [], initialState: parseStateFile(saved) }],
+        });
+        const second = path.join(tmp, "lib_state_2.json");
+        await reloaded.handleCommand(`save state ${second}`);
+        expect(JSON.parse(fs.readFileSync(second, "utf8"))).toEqual(saved);
+    });
+});
+
+describe("explore", () => {
+
+    it("prunes repeated states and restores the session", async () => {
+        const debug = await session(RC_WALLET, RC_QUEUE);
+
+        await debug.handleCommand("explore");
+
+        const text = printed();
+        const [, visited, pruned] = text.match(/Explored (\d+) distinct states, pruned (\d+) repeated branches/)!.map(Number);
+        // 4 сообщения без отсечения дали бы 1 + 4 + 12 + 24 + 24 = 65 узлов
+        expect(pruned).toBeGreaterThan(0);
+        expect(visited).toBeLessThan(65);
+        expect(text).toMatch(/Distinct final states: 11/);
+        expect(debug["queue"].map(m => m.id)).toEqual([1, 2, 3, 4]);
+        expect(debug["transactions"]).toEqual([]);
+    });
+});
@@ -1,4 +0,0 @@
-import random
-
-result = random.choice([True, False])
-print(result)
\ No newline at end of file
@@ -1,38 +1,15 @@
 import * as fs from "fs";
 import * as readline from "readline";
-import { beginCell, Cell, Address, toNano, CurrencyCollection, CommonMessageInfo } from "@ton/core";
+import { createHash } from "crypto";
+import { beginCell, Cell, CellType, Address, contractAddress, toNano, CurrencyCollection, CommonMessageInfo, TupleItem, ShardAccount, StateInit, loadStateInit, storeStateInit, AccountState, Dictionary, loadShardAccount, storeShardAccount } from "@ton/core";
+import { configParse18, configParseGasLimitsPrices, configParseMsgPrices, GasLimitsPrices, MsgPrices } from "@ton/ton";
 import { compileFunc } from "@ton-community/func-js";
-import { Blockchain, createShardAccount, SandboxContract, PendingMessage, BlockchainTransaction, printTransactionFees } from "@ton/sandbox";
+import { Blockchain, BlockchainSnapshot, createShardAccount, ExtraCurrency, GetMethodError, SandboxContract, PendingMessage, BlockchainTransaction, printTransactionFees, SmartContract, TreasuryContract, Verbosity } from "@ton/sandbox";
 import { randomAddress } from "@ton/test-utils";
 import ts from 'typescript';
 
 // Work interface
 
-interface GeneratedMessage {
-  id: number;
-  type: string;
-  body: string;
-  value: {
-      coins: string;
-      extraCurrencies: null;
-  };
-  senderId: number;
-  name: string;
-}
-
-interface ExperimentContractState {
-  balance: string;
-  total: number;
-  owner_address: string | null;
-  owner_id?: string;
-  state: {
-      type: 'active' | 'frozen' | 'uninit';
-      code?: string | null; // hex-строка
-      data?: string | null; // hex-строка
-      stateHash?: string; // для frozen
-  };
-}
-
 interface ContractState {
     balance?: bigint;
     code?: Cell;
@@ -43,94 +20,202 @@ interface ContractState {
     };
     type?: 'active' | 'frozen' | 'uninit';
     stateHash?: string; // для frozen type
+    duePayment?: bigint; // долг за хранение
+    extraCurrencies?: ExtraCurrency; // id валюты -> количество
+    libraries?: Record<string, Cell>; // hex-хэш -> ячейка библиотеки
+}
+
+// Что получает инвариант experiment после каждого прогона
+export interface InvariantInput {
+  run: number;
+  seed: number; // сид, с которого начинался прогон
+  order: Message[]; // исполненные сообщения по порядку (включая порождённые)
+  contracts: Record<string, {
+    state: Record<string, any>; // как в save state
+    getters: Record<string, unknown[] | null>; // результаты геттеров без аргументов (null --- геттер упал)
+  }>;
 }
 
-interface Message {
+export type InvariantResult = boolean | { pass: boolean; reason?: string };
+type Invariant = (input: InvariantInput) => InvariantResult | Promise<InvariantResult>;
+
+export interface Message {
   id: number;
-  type: 'internal' | 'external-in';
+  type: 'internal' | 'external-in' | 'external-out'; // external-out --- только события из show events, в очередь не попадают
   body: Cell;
   sender: Address;
+  to?: string; // алиас контракта-получателя
+  dest?: Address; // получатель, если это не наш контракт (исходящие сообщения)
   value?: {
     coins: bigint;
-    extraCurrencies?: Cell | null;
+    extraCurrencies?: ExtraCurrency | null; // id валюты -> количество
   };
   name?: string;
+  parent?: Transaction; // транзакция, которая породила сообщение
+  // поля конверта internal сообщения (по умолчанию bounce, ihr выключен, нулевые комиссия/время/lt)
+  bounce?: boolean;
+  bounced?: boolean;
+  ihrDisabled?: boolean;
+  forwardFee?: bigint;
+  createdAt?: number;
+  createdLt?: bigint;
+  stateInit?: StateInit;
+  deploy?: boolean; // приложить StateInit контракта-получателя
+  extDest?: string; // внешний адрес получателя external-out (если задан)
+  delaySeconds?: number; // на сколько секунд сдвинуть часы блокчейна перед исполнением
 }
 
 interface Transaction {
   transaction: BlockchainTransaction,
   message: Message;
+  contract: string; // алиас контракта, на котором прошла транзакция (или адрес, если он не наш)
   stateChanges: ContractState;
 }
 
-interface DebugConsoleOptions {
+// get-метод, объявленный в FunC исходнике: (int, slice) get_state() method_id
+interface GetterSignature {
+    name: string;
+    returnTypes: string[];
+    params: { type: string; name: string }[];
+}
+
+interface CompiledContract {
+    codeCell: Cell;
+    getters: GetterSignature[];
+}
+
+interface ContractConfig {
+    alias: string;
+    codeCell: Cell;
+    getters?: GetterSignature[];
     initialState?: ContractState;
+    startAs?: 'uninit' | 'none'; // не разворачивать контракт сразу: его задеплоит сообщение со stateInit
+}
+
+interface DebugContract {
+    alias: string;
+    address: Address;
+    codeCell: Cell;
+    getters: GetterSignature[];
+    stateInit: StateInit; // код и данные, с которыми контракт деплоится (для сообщений с "deploy": true)
+}
+
+// всё, что нужно, чтобы вернуть сессию к моменту перед шагом
+interface SessionSnapshot {
+    blockchain: BlockchainSnapshot;
+    queue: Message[];
+    executedMessages: Message[];
+    transactions: Transaction[];
+    stateHistory: ContractState[];
+    events: Message[];
+    senderStartBalances: Map<number, bigint>; // кошельки отправителей живут в блокчейне, поэтому и список созданных --- в снимке
+    configSource: string; // конфиг тоже часть снимка блокчейна
+}
+
+// ветка исследования: сессия на момент ухода с ветки и её история для rewind
+interface SessionBranch {
+    session: SessionSnapshot;
+    history: SessionSnapshot[];
+}
+
+// расходы одной транзакции по фазам
+interface TransactionCosts {
+    gas: bigint;
+    computeFees: bigint;
+    actionFees: bigint;
+    forwardFees: bigint;
+    storageFees: bigint;
+}
+
+// JSON-оверлей конфига: отдельные поля цен газа / пересылки и сырые параметры по номеру
+interface ConfigOverlay {
+    gasPrices?: { masterchain?: Record<string, string | number>; basechain?: Record<string, string | number> };
+    msgPrices?: { masterchain?: Record<string, string | number>; basechain?: Record<string, string | number> };
+    params?: Record<string, string>; // номер параметра -> ячейка в base64
+}
+
+export interface DebugConsoleOptions {
+    contracts: ContractConfig[];
     initialQueue?: Message[];
+    configPath?: string;
+    senderBalance?: bigint; // начальный баланс кошельков отправителей
+    deterministic?: boolean; // адреса из StateInit, фиксированное время: одинаковый порядок даёт одинаковые состояния
+}
+
+interface VmLogStep {
+  instruction: string;
+  stack?: string;
+  location?: string; // code cell hash + offset
+  gasRemaining?: string;
+  notes: string[]; // исключения и прочие строки лога
+}
+
+type BreakCondition =
+  | { kind: 'exit'; code?: number }
+  | { kind: 'message'; id: number }
+  | { kind: 'name'; name: string }
+  | { kind: 'sender'; senderId: number }
+  | { kind: 'balance'; op: '<' | '<=' | '>' | '>=' | '=='; value: bigint; alias?: string }
+  | { kind: 'getter'; method: string; alias?: string; lastValue?: string };
+
+interface Breakpoint {
+  id: number;
+  enabled: boolean;
+  hits: number;
+  condition: BreakCondition;
+}
+
+interface BreakpointHit {
+  breakpoint: Breakpoint;
+  reason: string;
 }
 
 const SENDERS_LIST: Record<number, Address> = {};
+const DEFAULT_SENDER_BALANCE = toNano('1000');
+const DETERMINISTIC_START_TIME = 1700000000;
+let DETERMINISTIC = false; // --deterministic: адреса отправителей не случайные (нужно уже при чтении очереди)
+// состояние генератора mulberry32 --- одно 32-битное число, поэтому любой момент воспроизводится через set seed / --seed
+let RANDOM_STATE = (Date.now() ^ Math.floor(Math.random() * 0x100000000)) >>> 0;
+const VM_VERBOSITY_LEVELS = ['none', 'vm_logs', 'vm_logs_location', 'vm_logs_gas', 'vm_logs_full', 'vm_logs_verbose'] as const;
+const VMLOG_PAGE_SIZE = 20;
+const EXPERIMENT_MAX_STEPS = 10000; // прогон, который не затих за столько сообщений, считаем упавшим
 
 // TON Debug Console
-class TONDebugConsole {
+export class TONDebugConsole {
   private blockchain!: Blockchain;
-  private contractAddress!: Address;
+  private contracts: Map<string, DebugContract> = new Map();
+  private contractAddress!: Address; // адрес контракта по умолчанию (первого из --contract)
   private queue: Message[] = [];
   private executedMessages: Message[] = [];
   private transactions: Transaction[] = [];
   private stateHistory: ContractState[] = [];
-  private rl: readline.Interface;
+  private events: Message[] = []; // external-out сообщения исполненных транзакций
+  private history: SessionSnapshot[] = []; // history[N - 1] --- сессия перед шагом N
+  private branches: Map<string, SessionBranch> = new Map(); // сохранённые ветки, кроме текущей
+  private currentBranch = 'main';
+  private bounceMode: 'auto' | 'off' = 'auto'; // что делать с отскоками упавших bounceable сообщений
+  private lastMessageId = 0; // наибольший выданный id сообщения
+  private gasBudgets: Map<string, bigint> = new Map(); // лимит газа по имени сообщения
+  private configSource = 'default'; // откуда взят текущий конфиг блокчейна
+  private senderStartBalances: Map<number, bigint> = new Map(); // отправители, у которых уже есть кошелёк
+  private rl?: readline.Interface; // только в интерактивном режиме (initialize)
   private provider!: SandboxContract<any>;
-  private scriptFn: ((q: Message[]) => void) | null = null;
+  private scriptFn: ((q: Message[], random: () => number) => void) | null = null;
+  private vmStepCursor: { tx: Transaction; steps: VmLogStep[]; position: number } | null = null;
+  private breakpoints: Breakpoint[] = [];
+  private pausedBefore?: number; // id сообщения, перед которым continue остановился по брейкпоинту на сообщение
+  // последний упавший прогон experiment: база, исходные сообщения в порядке исполнения и инвариант (для minimize)
+  private counterexample?: { base: SessionSnapshot; order: Message[]; invariant: Invariant; invariantPath: string };
 
   // Конструктор дебагера
   constructor(
-      private options: DebugConsoleOptions,
-      private codeCell: Cell
-  ) {
-      this.rl = readline.createInterface({
-          input: process.stdin,
-          output: process.stdout,
-          prompt: 'tondebug> '
-      });
-  }
+      private options: DebugConsoleOptions
+  ) {}
 
 
-  // Инициализация дебагера
+  // Инициализация дебагера и запуск консоли
   async initialize() {
-    this.blockchain = await Blockchain.create(); // создаём локально копию блокчейна
-    this.contractAddress = randomAddress(); // рандомный адрес гарантирует что состояние блокчейна не зависит от истории
-    this.provider = this.blockchain.provider(this.contractAddress); // сохранаем провайдер для общения с блокчейном 
-    // парсинг скомпилированной версии контракта и выгрузка его в блокчейн
-    const hexData = fs.readFileSync('./tmp/tondebug.compiled.json', 'utf-8');
-    const { hex } = JSON.parse(hexData);
-    const codeCell = Cell.fromBoc(Buffer.from(hex, "base64"))[0];
-
-    // создаём дефолтное начальное состояние
-    const initialState = this.options.initialState || {
-        balance: toNano('1'),
-        code: this.codeCell,
-        data: new Cell()
-    };
-
-    // закидываем наш контракт в блокчейн
-    await this.blockchain.setShardAccount(
-        this.contractAddress,
-        createShardAccount({
-            address: this.contractAddress,
-            code: initialState.code ?? codeCell,
-            data: initialState.data ?? new Cell(),
-            balance: initialState.balance ?? toNano('1'),
-        })
-    );
-    
-    // Если очередь есть то сохраняем её
-    if (this.options.initialQueue) {
-        this.queue = this.options.initialQueue;
-    }
-
-    // Сохраняем начальное состояние в лог
-    const currentState = await this.getCurrentState();
-    this.stateHistory.push(currentState);
+    await this.setup();
 
     console.log(`
  \u001b[36m   ╔════════════════════════════════════════════════════╗
@@ -140,20 +225,179 @@ class TONDebugConsole {
       \u001b[33mType '\u001b[35mexit\u001b[33m' to quit.\u001b[0m
     `);
     this.showHelp();
-    this.rl.prompt();
+
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+        prompt: 'tondebug> '
+    });
+    this.rl = rl;
+    rl.prompt();
 
     // Обработка запроса из консоли
-    this.rl.on('line', async (line) => {
+    rl.on('line', async (line) => {
         await this.handleCommand(line.trim());
-        this.rl.prompt();
+        rl.prompt();
     }).on('close', () => {
         console.log("Exiting TON Debug Console");
         process.exit(0);
     });
   }
 
+  // Блокчейн, контракты, очередь и кошельки отправителей без консоли (так сессию поднимают и тесты)
+  async setup() {
+    this.blockchain = await Blockchain.create(); // создаём локально копию блокчейна
+    // логи транзакций печатаем сами (debug-логи в executeMessage, vm-логи через show vmlog / step)
+    this.blockchain.verbosity = { ...this.blockchain.verbosity, print: false };
+
+    // в детерминированном режиме часы стоят на фиксированном времени (lt песочницы и так начинается с нуля)
+    if (this.options.deterministic) {
+        this.blockchain.now = DETERMINISTIC_START_TIME;
+    }
+
+    // свой конфиг (цены газа, лимиты) ставим до деплоя контрактов
+    if (this.options.configPath) {
+        this.blockchain.setConfig(readConfigFile(this.options.configPath, this.blockchain.config));
+        this.configSource = this.options.configPath;
+    }
+
+    // закидываем все контракты в блокчейн, каждый под своим алиасом
+    for (const config of this.options.contracts) {
+        await this.deployContract(config);
+    }
+
+    // первый контракт используется по умолчанию (сообщения без "to", команды без алиаса)
+    const defaultContract = this.getContract();
+    this.contractAddress = defaultContract.address;
+    this.provider = this.blockchain.provider(this.contractAddress); // сохранаем провайдер для общения с блокчейном
+    
+    // Если очередь есть то сохраняем её
+    if (this.options.initialQueue) {
+        this.checkMessageAliases(this.options.initialQueue);
+        this.queue = this.options.initialQueue;
+    }
+    await this.deploySenderWallets();
+
+    // Сохраняем начальное состояние в лог
+    const currentState = await this.getCurrentState();
+    this.stateHistory.push(currentState);
+  }
+
+  // Выгрузить контракт в блокчейн --- внутренняя функция
+  private async deployContract(config: ContractConfig): Promise<void> {
+    const initialState = config.initialState || {};
+    const code = initialState.code ?? config.codeCell;
+    const data = initialState.data ?? new Cell();
+    this.installLibraries(initialState.libraries ?? {});
+
+    // рандомный адрес гарантирует что состояние блокчейна не зависит от истории,
+    // в детерминированном режиме адрес считается из StateInit, как при настоящем деплое.
+    // Контракт, который задеплоит сообщение, обязан жить по адресу своего StateInit, иначе init не примут
+    const address = this.options.deterministic || config.startAs
+        ? contractAddress(0, { code, data })
+        : randomAddress();
+    const clash = [...this.contracts.values()].find(c => c.address.equals(address));
+    if (clash) {
+        throw new Error(`Contracts ${clash.alias} and ${config.alias} have the same StateInit and therefore the same address`);
+    }
+
+    // none --- аккаунта нет совсем, uninit --- есть только баланс (по умолчанию нулевой)
+    if (config.startAs === 'uninit') {
+        await this.blockchain.setShardAccount(
+            address,
+            createAccountFromState(address, { ...initialState, type: 'uninit', balance: initialState.balance ?? 0n }, code, data)
+        );
+    } else if (config.startAs === undefined) {
+        await this.blockchain.setShardAccount(
+            address,
+            createAccountFromState(address, { ...initialState, balance: initialState.balance ?? toNano('1') }, code, data)
+        );
+    }
+
+    this.contracts.set(config.alias, {
+        alias: config.alias,
+        address: address,
+        codeCell: config.codeCell,
+        getters: config.getters ?? [],
+        stateInit: { code, data }
+    });
+  }
+
+  // У каждого senderId свой кошелёк (код treasury из песочницы) с начальным балансом --- внутренняя функция
+  private async deploySenderWallets(): Promise<void> {
+    const balance = this.options.senderBalance ?? DEFAULT_SENDER_BALANCE;
+    for (const [id, address] of Object.entries(SENDERS_LIST)) {
+        const senderId = Number(id);
+        if (this.senderStartBalances.has(senderId)) {
+            continue;
+        }
+
+        await this.blockchain.setShardAccount(
+            address,
+            createShardAccount({
+                address: address,
+                code: TreasuryContract.code,
+                data: TreasuryContract.create(0, BigInt(senderId)).init.data ?? new Cell(),
+                balance: balance
+            })
+        );
+        this.senderStartBalances.set(senderId, balance);
+    }
+  }
+
+  // Вывести кошельки отправителей с балансами
+  private async showSenders(): Promise<void> {
+    if (this.senderStartBalances.size === 0) {
+      console.log(`\n\u001b[33mNo senders yet (messages without "senderId" come from random addresses)\u001b[0m\n`);
+      return;
+    }
+
+    console.log(`\n\u001b[33mSenders:\u001b[0m\n`);
+    for (const [senderId, start] of [...this.senderStartBalances].sort(([a], [b]) => a - b)) {
+      const address = SENDERS_LIST[senderId];
+      const balance = (await this.blockchain.getContract(address)).balance;
+      const delta = balance - start;
+      console.log(
+        `  \u001b[36m${String(senderId).padStart(3, ' ')}.\u001b[0m \u001b[35m${address.toString()}\u001b[0m ` +
+        `balance \u001b[32m${balance}\u001b[0m (${delta >= 0n ? '\u001b[32m+' : '\u001b[31m'}${delta}\u001b[0m since start)`
+      );
+    }
+    console.log();
+  }
+
+  // Найти контракт по алиасу (без алиаса --- контракт по умолчанию)
+  private getContract(alias?: string): DebugContract {
+    if (alias === undefined) {
+        return this.contracts.values().next().value!;
+    }
+
+    const contract = this.contracts.get(alias);
+    if (!contract) {
+        throw new Error(`Unknown contract alias: ${alias}. Known: ${[...this.contracts.keys()].join(', ')}`);
+    }
+    return contract;
+  }
+
+  // Проверить, что все алиасы "to" в сообщениях известны
+  private checkMessageAliases(messages: Message[]): void {
+    for (const msg of messages) {
+        if (msg.to !== undefined) {
+            this.getContract(msg.to);
+        }
+    }
+  }
+
+  // Алиас нашего контракта по адресу
+  private aliasByAddr(addr: Address): string | undefined {
+    return this.contractByAddr(addr)?.alias;
+  }
+
+  private contractByAddr(addr: Address): DebugContract | undefined {
+    return [...this.contracts.values()].find(c => c.address.equals(addr));
+  }
+
   // Работа с командами в консоли
-  private async handleCommand(input: string): Promise<void> {
+  async handleCommand(input: string): Promise<void> {
     const args = input.split(/\s+/);
     const command = args[0];
     const params = args.slice(1);
@@ -197,10 +441,31 @@ class TONDebugConsole {
           await this.handleScriptCommand(params);
           break;
         case 'experiment':
-          await this.experiment();
+          await this.experiment(params);
+          break;
+        case 'explore':
+          await this.explore(params);
+          break;
+        case 'minimize':
+          await this.minimize(params);
+          break;
+        case 'step':
+          this.handleStepCommand(params);
+          break;
+        case 'break':
+          await this.handleBreakCommand(params);
+          break;
+        case 'rewind':
+          await this.rewind(params[0] !== undefined ? parseInt(params[0]) : undefined);
+          break;
+        case 'branch':
+          await this.handleBranchCommand(params);
+          break;
+        case 'time':
+          this.handleTimeCommand(params);
           break;
         case 'exit':
-          this.rl.close();
+          this.rl?.close();
           break;
         case '':
           break;
@@ -215,167 +480,332 @@ class TONDebugConsole {
     }
   }
 
-  // основной метод для воспроизведения численного эксперимента
-  private async experiment() {
-    let total_sum = 0;
-    for (let n = 0; n < 100; n++) {
-      for (let i = 0; i < 1000; i++) {
-          this.shuffleQueue();
-          // let order = await this.getPythonScriptToGenerateOrderQueue(this.queue.length);
-          this.showQueue();
-          const queueLength = this.queue.length;
-          for (let j = 0; j < queueLength; j++) {
-            await this.runNextMessage();
-            // await this.runSpecificMessage(order[j]);
-            // await this.sleep(2000);
-            this.shuffleQueue();
-          }
-          if (i == 0) {
-            await this.saveExperimentState('tmp/first_exp_state.json')
-          } else {
-            await this.saveExperimentState('tmp/last_exp_state.json')
-            const diff = await this.diffExperimentContractState('tmp/first_exp_state.json', 'tmp/last_exp_state.json')
-
-            if (diff) {
-              fs.unlinkSync('tmp/last_exp_state.json');
-            } else {
-              console.log(`Состояния не совпали, номер итерации "${i + 1}"`);
-              const iterationNumber = i + 1;
-              total_sum += iterationNumber;
-              fs.appendFileSync('tmp/iterations.txt', `${iterationNumber} `, 'utf8');
-              
-              await this.addMessages('tmp/generated_queue.json')
-              const params = ['state', 'states/initial_rc_state.json']
-              await this.handleLoadCommand(params);
-
-              break;
-            }
-          }
+  // Случайные прогоны очереди с проверкой инварианта: перемешиваем очередь перед каждым сообщением,
+  // после прогона отдаём состояния и геттеры инварианту. Останавливаемся на первом нарушении
+  private async experiment(params: string[]): Promise<void> {
+    const runs = Number(flagValue(params, '--runs') ?? 100);
+    const invariantPath = flagValue(params, '--invariant');
+    if (!invariantPath || !Number.isInteger(runs) || runs < 1) {
+      console.log(`\n\u001b[33mUsage: experiment --invariant <file> [--runs N] [--state [alias=]<path>] [--queue <path>]\u001b[0m\n`);
+      return;
+    }
 
-          await this.addMessages('tmp/generated_queue.json')
-          const params = ['state', 'states/initial_rc_state.json']
-          await this.handleLoadCommand(params);
-          console.log(`Итерация "${i + 1}"`);
+    const invariant = loadInvariant(invariantPath);
+    const queue = await this.loadRunQueue(flagValue(params, '--queue'));
+    const start = this.captureSession();
+    const startHistory = this.history;
+    const base = await this.prepareRunBase(flagValue(params, '--state'), queue);
+    if (!base) {
+      await this.restoreSession(start);
+      console.log(`\n\u001b[33mNo messages in the queue\u001b[0m\n`);
+      return;
+    }
+
+    console.log(`\n\u001b[33mRunning\u001b[0m \u001b[35m${runs}\u001b[0m \u001b[33mshuffled runs of\u001b[0m \u001b[35m${base.queue.length}\u001b[0m \u001b[33mmessages against\u001b[0m ${invariantPath}`);
+
+    for (let run = 1; run <= runs; run++) {
+      await this.restoreSession(base);
+      this.history = [];
+      const seed = RANDOM_STATE;
+      const { order, verdict } = await this.runAndCheck(invariant, run, seed, true);
+
+      if (!verdict.pass) {
+        // сессию оставляем на упавшем прогоне: его можно разобрать через show trace / rewind
+        console.log(`\n\u001b[31m✖ Invariant failed on run ${run}\u001b[0m${verdict.reason ? `: ${verdict.reason}` : ''}`);
+        console.log(`  \u001b[33mSeed:\u001b[0m  \u001b[35m${seed}\u001b[0m (replay: set seed ${seed}, then experiment --runs 1 with the same options)`);
+        console.log(`  \u001b[33mOrder:\u001b[0m ${order.map(m => `${m.id} (${m.name || 'unnamed'})`).join(' → ')}`);
+        console.log(`  \u001b[37mThe session now holds the failing run; use show trace, show state or rewind to inspect it.\u001b[0m`);
+        console.log(`  \u001b[37mRun "minimize" to shrink the failing order.\u001b[0m\n`);
+
+        // исходные сообщения в том порядке, в каком они исполнились --- материал для minimize
+        this.counterexample = {
+          base,
+          order: order.filter(m => base.queue.some(q => q.id === m.id)),
+          invariant,
+          invariantPath
+        };
+        return;
       }
     }
-    console.log(`Total sum: "${total_sum}"`)
+
+    await this.restoreSession(start);
+    this.history = startHistory;
+    console.log(`\n\u001b[32m✓ Invariant held in all ${runs} runs\u001b[0m\n`);
   }
 
-  // метод для воспроизведения питон скрипта для получения рандомного порядка сообщений (для эксперимента)
-  private async getPythonScriptToGenerateOrderQueue(n: number): Promise<number[]> {
-    const { execSync } = require('child_process');
+  // Сократить падающий порядок дельта-отладкой: выкидываем куски очереди и переставляем сообщения,
+  // каждый раз исполняя кандидата с исходного снимка (порождённые сообщения --- в конец очереди, как в continue)
+  private async minimize(params: string[]): Promise<void> {
+    const invariantPath = flagValue(params, '--invariant');
+    const queuePath = flagValue(params, '--queue');
+    const outPath = flagValue(params, '--out');
+    if ((queuePath === undefined) !== (invariantPath === undefined)) {
+      console.log(`\n\u001b[33mUsage: minimize [--queue <path> --invariant <file> [--state [alias=]<path>]] [--out <path>]\u001b[0m`);
+      console.log(`  \u001b[37mWithout --queue/--invariant the last failing experiment run is minimized\u001b[0m\n`);
+      return;
+    }
+
+    const explicitInvariant = invariantPath ? loadInvariant(invariantPath) : undefined;
+    const explicitQueue = await this.loadRunQueue(queuePath);
+    const start = this.captureSession();
+    const startHistory = this.history;
+
+    let counterexample = this.counterexample;
+    if (explicitQueue && explicitInvariant && invariantPath) {
+      const base = await this.prepareRunBase(flagValue(params, '--state'), explicitQueue);
+      counterexample = base ? { base, order: base.queue, invariant: explicitInvariant, invariantPath } : undefined;
+    }
+    if (!counterexample) {
+      await this.restoreSession(start);
+      console.log(`\n\u001b[33mNothing to minimize: run an experiment that fails, or pass --queue and --invariant\u001b[0m\n`);
+      return;
+    }
+
+    const { base, invariant } = counterexample;
+    let tests = 0;
+    const fails = async (candidate: Message[]): Promise<boolean> => {
+      tests++;
+      await this.restoreSession({ ...base, queue: candidate });
+      this.history = [];
+      return !(await this.runAndCheck(invariant, tests, RANDOM_STATE, false)).verdict.pass;
+    };
+
+    console.log(`\n\u001b[33mMinimizing\u001b[0m \u001b[35m${counterexample.order.length}\u001b[0m \u001b[33mmessages against\u001b[0m ${counterexample.invariantPath}`);
+
+    let current = counterexample.order;
     try {
-        console.log(n);
-        const result = execSync(`python3 tmp/shuffle_script.py ${n}`).toString().trim();;
-        console.log(result);
-        return result.split(' ').map(Number);
-    } catch (error) {
-        console.error('Error calling Python script:', error);
-        return [];
+      if (!(await fails(current))) {
+        console.log(`\n\u001b[31m✖ The order does not fail when replayed in queue order\u001b[0m` +
+          ` (it may depend on how produced messages were interleaved, on the clock or on state the invariant keeps between runs)\n`);
+        return;
+      }
+
+      current = await ddmin(current, fails,
+        (from, to) => console.log(`  \u001b[36m✂\u001b[0m ${from} → \u001b[35m${to}\u001b[0m messages`));
+      current = await reorderTowardsIds(current, fails);
+    } finally {
+      await this.restoreSession(start);
+      this.history = startHistory;
+    }
+
+    const minimal = current.map(m => this.serializeQueueMessage(m));
+    console.log(`\n\u001b[32m✓ Minimal failing queue:\u001b[0m \u001b[35m${current.length}\u001b[0m of ${counterexample.order.length} messages (${tests} replays)`);
+    console.log(`  \u001b[33mOrder:\u001b[0m ${current.map(m => `${m.id} (${m.name || 'unnamed'})`).join(' → ') || 'empty: the invariant fails without messages'}\n`);
+    console.log(JSON.stringify(minimal, null, 2));
+    if (outPath) {
+      await fs.promises.writeFile(outPath, JSON.stringify(minimal, null, 2));
+      console.log(`\n\u001b[32m✓ Saved to ${outPath}\u001b[0m (run it with --queue ${outPath} and continue)\n`);
     }
   }
 
-  // метод для засыпания (использовался для эксперимента, чтобы легче было дебажить)
-  private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Очередь для experiment/minimize (кошельки новых отправителей создаются сразу) --- внутренняя функция
+  private async loadRunQueue(queuePath?: string): Promise<Message[] | undefined> {
+    if (!queuePath) {
+      return undefined;
+    }
+    const queue = await silently(() => loadMessageQueue(queuePath));
+    this.checkMessageAliases(queue);
+    await this.deploySenderWallets();
+    return queue;
   }
 
-  // метод сравнения состояний контракта (для эксперимента)
-  private async diffExperimentContractState(path1: string, path2:string): Promise<boolean> {
-    const state1: ExperimentContractState = JSON.parse(fs.readFileSync(path1, 'utf8'));
-    const state2: ExperimentContractState = JSON.parse(fs.readFileSync(path2, 'utf8'));
+  // База прогонов experiment/minimize: текущая сессия с подставленными состоянием и очередью --- внутренняя функция
+  private async prepareRunBase(statePath?: string, queue?: Message[]): Promise<SessionSnapshot | undefined> {
+    if (statePath) {
+      const { alias, path, explicit } = parseAliasArg(statePath);
+      await this.applyStateFile(path, this.getContract(explicit ? alias : undefined));
+    }
+    if (queue) {
+      this.queue = queue;
+    }
+    return this.queue.length > 0 ? this.captureSession() : undefined;
+  }
 
-    // if (state1.balance !== state2.balance) {
-    //   console.log(`Balance mismatch: ${state1.balance} vs ${state2.balance}`);
-    //   return false;
-    // }
+  // Исполнить очередь до конца (с перемешиванием перед каждым сообщением или по порядку) и спросить инвариант --- внутренняя функция
+  private async runAndCheck(
+    invariant: Invariant, run: number, seed: number, shuffle: boolean
+  ): Promise<{ order: Message[]; verdict: { pass: boolean; reason?: string } }> {
+    const order: Message[] = [];
+    await silently(async () => {
+      while (this.queue.length > 0 && order.length < EXPERIMENT_MAX_STEPS) {
+        if (shuffle) {
+          this.shuffleQueue();
+        }
+        const message = this.queue.shift()!;
+        order.push(message);
+        await this.executeMessage(message);
+      }
+    });
 
-    if (state1.total !== state2.total) {
-        console.log(`Total mismatch: ${state1.total} vs ${state2.total}`);
-        return false;
+    if (this.queue.length > 0) {
+      return { order, verdict: { pass: false, reason: `queue did not settle after ${EXPERIMENT_MAX_STEPS} messages` } };
+    }
+    try {
+      return { order, verdict: normalizeInvariantResult(await invariant(await this.invariantInput(run, seed, order))) };
+    } catch (err) {
+      return { order, verdict: { pass: false, reason: `invariant threw: ${err instanceof Error ? err.message : String(err)}` } };
     }
+  }
 
-    if (state1.owner_address !== state2.owner_address) {
-      console.log(`Owner mismatch: ${state1.owner_address} vs ${state2.owner_address}`);
-      return false;
+  // Сообщение в формате файла очереди (для minimize --out) --- внутренняя функция
+  private serializeQueueMessage(msg: Message): Record<string, any> {
+    const ec = serializeExtraCurrencies(msg.value?.extraCurrencies);
+    return {
+      id: msg.id,
+      type: msg.type,
+      body: msg.body.toBoc().toString('base64'),
+      value: msg.value ? {
+        coins: msg.value.coins.toString(),
+        extraCurrencies: Object.keys(ec).length > 0 ? ec : null
+      } : undefined,
+      senderId: this.senderByAddr(msg.sender),
+      name: msg.name,
+      to: msg.to,
+      bounce: msg.bounce,
+      bounced: msg.bounced,
+      ihrDisabled: msg.ihrDisabled,
+      forwardFee: msg.forwardFee?.toString(),
+      createdAt: msg.createdAt,
+      createdLt: msg.createdLt?.toString(),
+      stateInit: msg.stateInit ? beginCell().store(storeStateInit(msg.stateInit)).endCell().toBoc().toString('base64') : undefined,
+      deploy: msg.deploy,
+      delaySeconds: msg.delaySeconds
+    };
+  }
+
+  // Состояния и геттеры всех контрактов для инварианта --- внутренняя функция
+  private async invariantInput(run: number, seed: number, order: Message[]): Promise<InvariantInput> {
+    const contracts: InvariantInput['contracts'] = {};
+    for (const contract of this.contracts.values()) {
+      const getters: Record<string, unknown[] | null> = {};
+      for (const getter of contract.getters.filter(g => g.params.length === 0)) {
+        try {
+          const result = await this.blockchain.runGetMethod(contract.address, getter.name, []);
+          getters[getter.name] = result.stack.map((item, i) => stackEntryValue(item, getter.returnTypes[i] ?? item.type));
+        } catch {
+          getters[getter.name] = null;
+        }
+      }
+      contracts[contract.alias] = {
+        state: serializeShardAccount((await this.blockchain.getContract(contract.address)).account),
+        getters
+      };
     }
+    return { run, seed, order, contracts };
+  }
 
-    if (state1.state.type !== state2.state.type) {
-      console.log(`State type mismatch: ${state1.state.type} vs ${state2.state.type}`);
-      return false;
+  // Перебор всех порядков исполнения очереди (DFS по снимкам). Ветки, пришедшие в уже виденное состояние
+  // (состояния контрактов + время + оставшиеся сообщения), отсекаются. Сессия в конце возвращается как была
+  private async explore(params: string[]): Promise<void> {
+    const limitIndex = params.indexOf('--limit');
+    const limit = limitIndex >= 0 ? Number(params[limitIndex + 1]) : 10000;
+    if (!Number.isInteger(limit) || limit < 1 || params.some((p, i) => p !== '--limit' && i !== limitIndex + 1)) {
+      console.log(`\n\u001b[33mUsage: explore [--limit N]\u001b[0m (N --- max distinct states to visit, default 10000)\n`);
+      return;
+    }
+    if (this.queue.length === 0) {
+      console.log(`\n\u001b[33mNo messages in the queue\u001b[0m\n`);
+      return;
     }
 
-    switch (state1.state.type) {
-      case 'active':
-          if (state2.state.type !== 'active') return false;
-          
-          if (state1.state.code !== state2.state.code) {
-              console.log('Code mismatch');
-              return false;
-          }
+    console.log(`\n\u001b[33mExploring orders of\u001b[0m \u001b[35m${this.queue.length}\u001b[0m \u001b[33mqueued messages...\u001b[0m`);
 
-          if (state1.state.data !== state2.state.data) {
-              console.log('Data mismatch');
-              return false;
-          }
-          break;
+    const start = this.captureSession();
+    const startHistory = this.history;
+    // без фиксированных часов плата за хранение считается по настоящему времени, и одинаковые
+    // состояния разных веток расходятся на нанотоны; снимок start вернёт часы как были
+    if (this.blockchain.now === undefined) {
+      this.blockchain.now = Math.floor(Date.now() / 1000);
+    }
+    const seen = new Set<string>();
+    const finals = new Map<string, { order: Message[]; states: Record<string, Record<string, any>> }>();
+    let pruned = 0;
+    let truncated = false;
+
+    const dfs = async (order: Message[]): Promise<void> => {
+      const contracts = await this.explorationStates();
+      const stateKey = hashJson(contracts);
+      const nodeKey = hashJson([stateKey, this.blockchain.now ?? null, this.queue.map(m => this.messageFingerprint(m)).sort()]);
+      if (seen.has(nodeKey)) {
+        pruned++;
+        return;
+      }
+      seen.add(nodeKey);
 
-      case 'frozen':
-          if (state2.state.type !== 'frozen') return false;
-          
-          if (state1.state.stateHash !== state2.state.stateHash) {
-              console.log('State hash mismatch');
-              return false;
-          }
-          break;
+      if (this.queue.length === 0) {
+        if (!finals.has(stateKey)) {
+          finals.set(stateKey, { order, states: contracts });
+        }
+        return;
+      }
+      if (seen.size >= limit) {
+        truncated = true;
+        return;
+      }
 
-      case 'uninit':
-          if (state2.state.type !== 'uninit') return false;
-          break;
+      const node = this.captureSession();
+      const tried = new Set<string>();
+      for (let i = 0; i < node.queue.length && !truncated; i++) {
+        // одинаковые сообщения взаимозаменяемы --- достаточно исполнить первое из них
+        const fingerprint = this.messageFingerprint(node.queue[i]);
+        if (tried.has(fingerprint)) {
+          continue;
+        }
+        tried.add(fingerprint);
+
+        await this.restoreSession(node);
+        const [message] = this.queue.splice(i, 1);
+        await silently(() => this.executeMessage(message));
+        await dfs([...order, message]);
+      }
+    };
+
+    try {
+      await dfs([]);
+    } finally {
+      await this.restoreSession(start);
+      this.history = startHistory;
     }
-  
-    return true;
+
+    console.log(`\n\u001b[32m✓ Explored\u001b[0m \u001b[35m${seen.size}\u001b[0m distinct states, pruned \u001b[35m${pruned}\u001b[0m repeated branches` +
+      (truncated ? `\n\u001b[31m⚠ Stopped at --limit ${limit}: the result is incomplete\u001b[0m` : ''));
+    console.log(`\u001b[33mDistinct final states:\u001b[0m \u001b[35m${finals.size}\u001b[0m\n`);
+
+    [...finals.entries()].forEach(([hash, final], n) => {
+      console.log(`  \u001b[36m${n + 1}.\u001b[0m state \u001b[35m${hash.slice(0, 16)}\u001b[0m`);
+      for (const [alias, state] of Object.entries(final.states)) {
+        const data = state.data ? createHash('sha256').update(state.data).digest('hex').slice(0, 16) : 'none';
+        console.log(`     \u001b[32m${alias}\u001b[0m: ${state.type}, balance \u001b[35m${state.balance}\u001b[0m, data \u001b[35m${data}\u001b[0m` +
+          `${formatExtraCurrencies(state.extracurrency, ', ec ')}`);
+      }
+      console.log(`     \u001b[33morder:\u001b[0m ${final.order.map(m => `${m.id} (${m.name || 'unnamed'})`).join(' → ')}\n`);
+    });
   }
 
-  // метод для сохранения состояния контракта (для эксперимента)
-  private async saveExperimentState(filename: string) {
-    const state = await this.provider.getState();
-    const data = await this.blockchain.runGetMethod(this.contractAddress, 'get_state', []);
-    const total = data.stackReader.readNumber();
-    // console.log(data.stack.length);
-    let ownerAddress = null;
-    try {
-      ownerAddress = data.stackReader.readAddress();
-    } catch (e) {
-    }
-    // const ownerId = this.senderByAddr(ownerAddress);
-    console.log(ownerAddress);
-    const serializableState = {
-      balance: state.balance.toString(),
-      total: total,
-      owner_address: ownerAddress?.toString() || null,
-      // owner_id: ownerId,
-      state: (() => {
-          switch (state.state.type) {
-              case 'active':
-                  return {
-                      type: 'active',
-                      code: state.state.code?.toString('hex') || null,
-                      data: state.state.data?.toString('hex') || null
-                  };
-              case 'frozen':
-                  return {
-                      type: 'frozen',
-                      stateHash: state.state.stateHash.toString('hex')
-                  };
-              case 'uninit':
-                  return {
-                      type: 'uninit'
-                  };
-          }
-      })()
-    };
-    await fs.promises.writeFile(filename, JSON.stringify(serializableState, null, 2));
+  // Состояния всех наших контрактов без последней транзакции (lt зависит от порядка, а не от результата) --- внутренняя функция
+  private async explorationStates(): Promise<Record<string, Record<string, any>>> {
+    const states: Record<string, Record<string, any>> = {};
+    for (const contract of this.contracts.values()) {
+      const { last, ...state } = serializeShardAccount((await this.blockchain.getContract(contract.address)).account);
+      states[contract.alias] = state;
+    }
+    return states;
+  }
+
+  // Содержимое сообщения без id: сообщения с одинаковым отпечатком дают одинаковый результат --- внутренняя функция
+  private messageFingerprint(msg: Message): string {
+    return JSON.stringify([
+      msg.type,
+      msg.sender.toRawString(),
+      (msg.dest ?? this.getContract(msg.to).address).toRawString(),
+      String(msg.value?.coins ?? ''),
+      serializeExtraCurrencies(msg.value?.extraCurrencies),
+      msg.body.hash().toString('hex'),
+      msg.bounce, msg.bounced, msg.ihrDisabled,
+      String(msg.forwardFee ?? ''), msg.createdAt, String(msg.createdLt ?? ''),
+      msg.stateInit ? beginCell().store(storeStateInit(msg.stateInit)).endCell().hash().toString('hex') : null,
+      msg.deploy, msg.delaySeconds
+    ]);
   }
 
   // Обработать сообщение
@@ -388,37 +818,65 @@ class TONDebugConsole {
         \u001b[33mMessage ID:\u001b[0m   \u001b[35m${message.id}\u001b[0m
         \u001b[33mName:\u001b[0m        \u001b[32m${message.name || 'unnamed'}\u001b[0m
         \u001b[33mType:\u001b[0m        \u001b[36m${message.type}\u001b[0m
-        \u001b[33mValue:\u001b[0m       \u001b[35m${message.value?.coins || '0'}\u001b[0m
-        \u001b[33mSender:\u001b[0m      \u001b[36m${this.senderByAddr(message.sender)}\u001b[0m
+        \u001b[33mValue:\u001b[0m       \u001b[35m${message.value?.coins || '0'}${formatExtraCurrencies(message.value?.extraCurrencies, ' + ')}\u001b[0m
+        \u001b[33mSender:\u001b[0m      \u001b[36m${this.senderLabel(message.sender)}\u001b[0m
+        \u001b[33mBody:\u001b[0m        ${describeBody(message.body)}
       `);
 
+    // снимок перед шагом, к нему можно вернуться через rewind
+    this.history.push(this.captureSession([message, ...this.queue]));
+
+    if (message.delaySeconds) {
+      this.advanceTime(message.delaySeconds);
+    }
+
+    // сумму корневого сообщения списываем с кошелька отправителя (исходящие уже оплатил сам контракт)
+    let debited: { wallet: SmartContract; coins: bigint } | undefined;
+
     try {
+      // сообщения без явного адреса идут контракту по алиасу "to" (или контракту по умолчанию)
+      const dest = message.dest ?? this.getContract(message.to).address;
       const msgType = message.type === 'internal' ? 'internal' : 'external-in';
       
       // Формирование правильной структуры сообщений
       const messageInfo: CommonMessageInfo = msgType === 'internal'
           ? {
               type: 'internal',
-              ihrDisabled: true,
-              bounce: true,
-              bounced: false,
+              ihrDisabled: message.ihrDisabled ?? true,
+              bounce: message.bounce ?? true,
+              bounced: message.bounced ?? false,
               src: message.sender,
-              dest: this.contractAddress,
-              value: message.value || { coins: toNano('0.05'), extraCurrencies: null },
-              forwardFee: 0n,
+              dest: dest,
+              value: {
+                coins: message.value?.coins ?? toNano('0.05'),
+                other: packExtraCurrencies(message.value?.extraCurrencies)
+              },
+              forwardFee: message.forwardFee ?? 0n,
               ihrFee: 0n,
-              createdLt: 0n,
-              createdAt: 0
+              createdLt: message.createdLt ?? 0n,
+              createdAt: message.createdAt ?? this.blockchain.now ?? 0
           }
           : {
               type: 'external-in',
               src: null,
-              dest: this.contractAddress,
+              dest: dest,
               importFee: 0n
           };
       
+      const senderId = this.senderByAddr(message.sender);
+      if (msgType === 'internal' && !message.parent && senderId !== undefined) {
+        const wallet = await this.blockchain.getContract(message.sender);
+        const coins = BigInt(messageInfo.type === 'internal' ? messageInfo.value.coins : 0n);
+        if (wallet.balance < coins) {
+          throw new Error(`Sender ${senderId} has insufficient balance: ${wallet.balance} < ${coins}`);
+        }
+        adjustBalance(wallet, -coins);
+        debited = { wallet, coins };
+      }
+
       const iter = await this.blockchain.sendMessageIter({
         info: messageInfo, 
+        init: message.stateInit ?? (message.deploy ? this.contractByAddr(dest)?.stateInit : undefined),
         body: message.body,
       });
 
@@ -431,50 +889,20 @@ class TONDebugConsole {
             break;
           }
       }
-      
-      // TODO: выяснить почему это влияет на эксперимент
-      // const messageQueue: PendingMessage[] = (this.blockchain as any).messageQueue;
-      // for (const pm of messageQueue) {
-      //   if (pm.type !== 'message') {
-      //       continue;
-      //   }           
-    
-      //   const { info, body } = pm;
-      //   const infoType = (info as any).type as string;
-    
-      //   if (infoType !== 'internal' && infoType !== 'external-in') continue;
-    
-      //   const sender = (info as any).src as Address;
-    
-      //   const value =
-      //       infoType === 'internal'
-      //           ? {
-      //               coins: (info as any).value.coins as bigint,
-      //               extraCurrencies: (info as any).value.extraCurrencies ?? null,
-      //             }
-      //           : undefined;
-      //   let maxId = this.queue.length > 0 
-      //           ? Math.max(...this.queue.map(m => m.id)) 
-      //           : 0;
-
-      //   const msg: Message = {
-      //       id: ++maxId,
-      //       type: infoType as 'internal' | 'external-in',
-      //       body,
-      //       sender,
-      //       value,
-      //   };
-
-      //   this.queue.push(msg);
-      // }    
-      if (!result) {
+
+      // исходящие сообщения остаются в очереди песочницы: забираем их оттуда,
+      // иначе песочница исполнит их при следующем sendMessageIter вместо нашего сообщения
+      dropPendingMessages(this.blockchain);
+
+      if (result.length === 0) {
           throw new Error('No transactions were produced');
       }
 
-      const newState = await this.getCurrentState();
+      const newState = await this.getCurrentState(dest);
       const transaction: Transaction = {
         transaction: result[0],
         message: message,
+        contract: this.aliasByAddr(dest) ?? (this.senderByAddr(dest) !== undefined ? `sender ${this.senderByAddr(dest)}` : dest.toString()),
         stateChanges: newState
       }
 
@@ -482,12 +910,15 @@ class TONDebugConsole {
       this.transactions.push(transaction);
       this.executedMessages.push(message);
       this.stateHistory.push(newState);
+      const { enqueued, dropped } = this.enqueueOutMessages(transaction);
+      const emitted = this.collectEvents(transaction);
   
       console.log(`
         \u001b[36m╔════════════════════════════════════════════════════╗
         \u001b[36m║\u001b[1;34m              Transaction Executed                  \u001b[0;36m║
         \u001b[36m╚════════════════════════════════════════════════════╝\u001b[0m
       
+        \u001b[33mContract:\u001b[0m         \u001b[32m${transaction.contract}\u001b[0m
         \u001b[33mContract Address:\u001b[0m \u001b[35m${transaction.transaction.address}\u001b[0m
         \u001b[33mCurrent Balance:\u001b[0m  \u001b[32m${newState.balance}\u001b[0m
       
@@ -495,7 +926,7 @@ class TONDebugConsole {
           \u001b[33mLT:\u001b[0m \u001b[35m${transaction.transaction.lt}\u001b[0m
           \u001b[33mHash:\u001b[0m \u001b[35m${transaction.transaction.hash().toString('hex')}\u001b[0m
           \u001b[33mStatus:\u001b[0m \u001b[36m${transaction.transaction.endStatus}\u001b[0m
-          \u001b[33mOut Msgs:\u001b[0m \u001b[35m${transaction.transaction.outMessagesCount}\u001b[0m
+          \u001b[33mOut Msgs:\u001b[0m \u001b[35m${transaction.transaction.outMessagesCount}\u001b[0m (\u001b[32m${enqueued}\u001b[0m enqueued${dropped > 0 ? `, \u001b[33m${dropped}\u001b[0m bounce dropped` : ''}${emitted > 0 ? `, \u001b[32m${emitted}\u001b[0m events` : ''})
       
         \u001b[36mPrevious Transaction:\u001b[0m
           \u001b[33mLT:\u001b[0m \u001b[35m${transaction.transaction.prevTransactionLt}\u001b[0m
@@ -505,78 +936,709 @@ class TONDebugConsole {
       `);
 
       console.log(printTransactionFees(result));
+      this.checkGasBudget(transaction);
+      if (transaction.transaction.debugLogs) {
+        console.log(`\n        \u001b[33mDebug logs:\u001b[0m\n${transaction.transaction.debugLogs}\n`);
+      }
       return true;
     } catch (err) {
+      this.history.pop();
+      if (debited) {
+        adjustBalance(debited.wallet, debited.coins);
+      }
+      // транзакции нет и контракт ничего не получил: отскоку нечего вернуть, сумма уже вернулась отправителю
       console.error(`\u001b[31m✖\u001b[0m Failed to execute message: \u001b[33m${err instanceof Error ? err.message : String(err)}\u001b[0m`);
       return false;
     }
   }
 
-  // Вернуть текущее состояние --- внутренняя функция
-  private async getCurrentState(): Promise<ContractState> {
-    const state = await this.provider.getState();
-    
-    return {
-      balance: state.balance,
-      type: state.state.type,
-      code: state.state.type === 'active' ? state.state.code : undefined,
-      data: state.state.type === 'active' ? state.state.data : undefined,
-      stateHash: state.state.type === 'frozen' ? state.state.stateHash.toString('hex') : undefined,
-      lastTransaction: state.last ? {
-          lt: state.last.lt.toString(),
-          hash: state.last.hash.toString('hex')
-      } : undefined
-    };
+  // Предупредить, если сообщение потратило больше газа, чем задано в set gas-budget --- внутренняя функция
+  private checkGasBudget(tx: Transaction): void {
+    const budget = tx.message.name !== undefined ? this.gasBudgets.get(tx.message.name) : undefined;
+    if (budget === undefined) {
+      return;
+    }
+
+    const gas = transactionCosts(tx.transaction).gas;
+    if (gas > budget) {
+      console.log(`        \u001b[31m⚠ Gas budget exceeded:\u001b[0m "${tx.message.name}" used \u001b[35m${gas}\u001b[0m, budget \u001b[35m${budget}\u001b[0m\n`);
+    }
   }
 
-  // Сохраняем текущее состояние контракта в файл ---  внутренняя функция
-  private async saveState(path: string): Promise<void> {
-    const state = await this.getCurrentState();
+  // Отчёт по газу и комиссиям всех исполненных транзакций: по имени сообщения, отправителю и op-коду
+  private showGas(): void {
+    if (this.transactions.length === 0) {
+      console.log(`\n\u001b[33mNo transactions yet\u001b[0m\n`);
+      return;
+    }
 
-    const serialized = {
-        last: state.lastTransaction ? {
-          lt: state.lastTransaction.lt.toString(),
-          hash: state.lastTransaction.hash} : null,
-        balance: state.balance?.toString(),
-        code: state.code?.toString('hex'),
-        data: state.data?.toString('hex'),
-        type: state.type,
-        stateHash: state.stateHash
-    };
-    await fs.promises.writeFile(path, JSON.stringify(serialized, null, 2));
-    console.log(`\n\u001b[32m✓ State saved to ${path}\u001b[0m\n`);
+    const total = this.transactions.map(tx => transactionCosts(tx.transaction));
+    console.log(`\n\u001b[32mGas profile (${this.transactions.length} transactions):\u001b[0m`);
+    console.log(
+      `  \u001b[33mTotal:\u001b[0m gas \u001b[35m${sumBy(total, c => c.gas)}\u001b[0m, ` +
+      `compute fees \u001b[35m${sumBy(total, c => c.computeFees)}\u001b[0m, ` +
+      `action fees \u001b[35m${sumBy(total, c => c.actionFees)}\u001b[0m, ` +
+      `forward fees \u001b[35m${sumBy(total, c => c.forwardFees)}\u001b[0m, ` +
+      `storage fees \u001b[35m${sumBy(total, c => c.storageFees)}\u001b[0m`
+    );
+
+    // исходящие сообщения группируем по корневому сообщению, иначе у каждого своё имя
+    const byName = (tx: Transaction) => tx.message.parent
+      ? `↳ out of ${tx.message.parent.message.name || 'unnamed'}`
+      : tx.message.name || 'unnamed';
+    this.printGasGroups('By message name', byName, true);
+    this.printGasGroups('By sender', tx => this.senderLabel(tx.message.sender), false);
+    this.printGasGroups('By op code', tx => messageOp(tx.message.body), false);
   }
 
-  // все команды начинающиеся на run --- внутренняя функция
-  private async handleRunCommand(params: string[]): Promise<void> {
-    if (params.length === 0) {
-        console.log(`\n\u001b[33mUsage: run <next|message <id>|get-method --name <method>>\u001b[0m\n`);
-        return;
+  // Одна таблица show gas --- внутренняя функция
+  private printGasGroups(title: string, key: (tx: Transaction) => string, withBudget: boolean): void {
+    const groups = new Map<string, { costs: TransactionCosts[]; overBudget: number }>();
+    for (const tx of this.transactions) {
+      const name = key(tx);
+      const group = groups.get(name) ?? { costs: [], overBudget: 0 };
+      const costs = transactionCosts(tx.transaction);
+      const budget = tx.message.name !== undefined ? this.gasBudgets.get(tx.message.name) : undefined;
+      group.costs.push(costs);
+      if (budget !== undefined && costs.gas > budget) {
+        group.overBudget++;
+      }
+      groups.set(name, group);
     }
 
-    switch (params[0]) {
-        case 'next':
-            await this.runNextMessage();
-            break;
-        case 'message':
-            if (params.length < 2) {
+    console.log(`\n  \u001b[36m${title}:\u001b[0m`);
+    console.log(`    ${'group'.padEnd(28)} ${'count'.padStart(5)} ${'gas min'.padStart(9)} ${'gas avg'.padStart(9)} ${'gas max'.padStart(9)} ${'compute'.padStart(11)} ${'action'.padStart(11)} ${'forward'.padStart(11)} ${'storage'.padStart(11)}`);
+    for (const [name, { costs, overBudget }] of groups) {
+      const gas = costs.map(c => c.gas);
+      const min = gas.reduce((a, b) => a < b ? a : b);
+      const max = gas.reduce((a, b) => a > b ? a : b);
+      const avg = sumBy(costs, c => c.gas) / BigInt(costs.length);
+      const budget = withBudget ? this.gasBudgets.get(name) : undefined;
+      const flag = overBudget > 0 && withBudget
+        ? ` \u001b[31m⚠ ${overBudget} over budget ${budget ?? ''}\u001b[0m`
+        : (budget !== undefined ? ` \u001b[32m(budget ${budget})\u001b[0m` : '');
+
+      console.log(
+        `    \u001b[34m${truncate(name, 28).padEnd(28)}\u001b[0m ${String(costs.length).padStart(5)} ` +
+        `${String(min).padStart(9)} ${String(avg).padStart(9)} ${String(max).padStart(9)} ` +
+        `${String(sumBy(costs, c => c.computeFees)).padStart(11)} ${String(sumBy(costs, c => c.actionFees)).padStart(11)} ` +
+        `${String(sumBy(costs, c => c.forwardFees)).padStart(11)} ${String(sumBy(costs, c => c.storageFees)).padStart(11)}` +
+        flag
+      );
+    }
+    console.log();
+  }
+
+  // set gas-budget <name> <limit|off> (имя сообщения может содержать пробелы) --- внутренняя функция
+  private setGasBudget(params: string[]): void {
+    const limit = params[params.length - 1];
+    const name = params.slice(0, -1).join(' ');
+    if (!name || !limit || (limit !== 'off' && !/^\d+$/.test(limit))) {
+      console.log(`\n\u001b[33mUsage: set gas-budget <message name> <limit|off>\u001b[0m\n`);
+      return;
+    }
+
+    if (limit === 'off') {
+      this.gasBudgets.delete(name);
+      console.log(`\n\u001b[32m✓ Gas budget for "${name}" removed\u001b[0m\n`);
+      return;
+    }
+
+    this.gasBudgets.set(name, BigInt(limit));
+    console.log(`\n\u001b[32m✓ Gas budget for "${name}" set to ${limit}\u001b[0m\n`);
+  }
+
+  // Снимок текущей сессии (перед исполнением сообщения само сообщение передаём в начале очереди) --- внутренняя функция
+  private captureSession(queue: Message[] = this.queue): SessionSnapshot {
+    return {
+      blockchain: this.blockchain.snapshot(),
+      queue: [...queue],
+      executedMessages: [...this.executedMessages],
+      transactions: [...this.transactions],
+      stateHistory: [...this.stateHistory],
+      events: [...this.events],
+      senderStartBalances: new Map(this.senderStartBalances),
+      configSource: this.configSource
+    };
+  }
+
+  // Откатить сессию к моменту перед шагом N (по умолчанию --- отменить последний шаг)
+  private async rewind(step?: number): Promise<void> {
+    if (this.history.length === 0) {
+      console.log(`\n\u001b[33mNothing to rewind: no messages executed yet\u001b[0m\n`);
+      return;
+    }
+
+    const target = step ?? this.history.length;
+    if (isNaN(target) || target < 1 || target > this.history.length) {
+      console.log(`\n\u001b[33mUsage: rewind [N], N in 1..${this.history.length}\u001b[0m\n`);
+      return;
+    }
+
+    const snapshot = this.history[target - 1];
+    this.history = this.history.slice(0, target - 1);
+    await this.restoreSession(snapshot);
+
+    console.log(`\n\u001b[32m✓ Rewound to before step ${target}\u001b[0m (${this.executedMessages.length} messages executed)`);
+    this.showQueue();
+  }
+
+  // Вернуть сессию к снимку --- внутренняя функция
+  private async restoreSession(snapshot: SessionSnapshot): Promise<void> {
+    // уровень логов оставляем текущим, а не тем, что был на момент снимка
+    const verbosity = this.blockchain.verbosity;
+    await this.blockchain.loadFrom(snapshot.blockchain);
+    this.blockchain.verbosity = verbosity;
+
+    this.queue = [...snapshot.queue];
+    this.executedMessages = [...snapshot.executedMessages];
+    this.transactions = [...snapshot.transactions];
+    this.stateHistory = [...snapshot.stateHistory];
+    this.events = [...snapshot.events];
+    this.senderStartBalances = new Map(snapshot.senderStartBalances);
+    this.configSource = snapshot.configSource;
+    this.pausedBefore = undefined;
+  }
+
+  // управление часами блокчейна (now() в контрактах) --- внутренняя функция
+  private handleTimeCommand(params: string[]): void {
+    switch (params[0]) {
+      case 'show':
+      case undefined:
+        this.showTime();
+        break;
+      case 'set': {
+        const unix = Number(params[1]);
+        if (!Number.isInteger(unix) || unix < 0) {
+          console.log(`\n\u001b[33mUsage: time set <unix>\u001b[0m\n`);
+          return;
+        }
+        const previous = this.blockchain.now;
+        this.blockchain.now = unix;
+        if (previous !== undefined && unix < previous) {
+          console.log(`\n\u001b[33m⚠ Clock moved backwards: contracts with a later last transaction will reject messages\u001b[0m`);
+        }
+        this.showTime();
+        break;
+      }
+      case 'advance': {
+        const seconds = Number(params[1]);
+        if (!Number.isInteger(seconds) || seconds < 0) {
+          console.log(`\n\u001b[33mUsage: time advance <seconds>\u001b[0m\n`);
+          return;
+        }
+        this.advanceTime(seconds);
+        this.showTime();
+        break;
+      }
+      default:
+        console.log(`\n\u001b[33mUsage: time <show|set <unix>|advance <seconds>>\u001b[0m\n`);
+    }
+  }
+
+  // Сдвинуть часы вперёд (если часы не заданы --- отсчитываем от текущего времени) --- внутренняя функция
+  private advanceTime(seconds: number): void {
+    const now = this.blockchain.now ?? Math.floor(Date.now() / 1000);
+    this.blockchain.now = now + seconds;
+    console.log(`\n        \u001b[33m⏱ Clock advanced by ${seconds}s\u001b[0m → \u001b[35m${this.blockchain.now}\u001b[0m`);
+  }
+
+  private showTime(): void {
+    const now = this.blockchain.now;
+    if (now === undefined) {
+      console.log(`\n\u001b[33mClock:\u001b[0m not fixed, contracts see real time (\u001b[35m${Math.floor(Date.now() / 1000)}\u001b[0m)\n`);
+      return;
+    }
+    console.log(`\n\u001b[33mClock:\u001b[0m \u001b[35m${now}\u001b[0m (${new Date(now * 1000).toISOString()})\n`);
+  }
+
+  // все команды начинающиеся на branch --- внутренняя функция
+  private async handleBranchCommand(params: string[]): Promise<void> {
+    switch (params[0]) {
+        case 'list':
+        case undefined:
+            this.listBranches();
+            break;
+        case 'create':
+            if (!params[1]) {
+                console.log(`\n\u001b[33mUsage: branch create <name>\u001b[0m\n`);
+                return;
+            }
+            this.createBranch(params[1]);
+            break;
+        case 'switch':
+            if (!params[1]) {
+                console.log(`\n\u001b[33mUsage: branch switch <name>\u001b[0m\n`);
+                return;
+            }
+            await this.switchBranch(params[1]);
+            break;
+        case 'diff':
+            if (params.length < 3) {
+                console.log(`\n\u001b[33mUsage: branch diff <name1> <name2>\u001b[0m\n`);
+                return;
+            }
+            this.diffBranches(params[1], params[2]);
+            break;
+        default:
+            console.log(`\n\u001b[33mUsage: branch <list|create <name>|switch <name>|diff <name1> <name2>>\u001b[0m\n`);
+    }
+  }
+
+  // Ответвить новую ветку от текущего состояния сессии (остаёмся на текущей ветке)
+  private createBranch(name: string): void {
+    if (name === this.currentBranch || this.branches.has(name)) {
+      console.log(`\n\u001b[33mBranch "${name}" already exists\u001b[0m\n`);
+      return;
+    }
+
+    this.branches.set(name, { session: this.captureSession(), history: [...this.history] });
+    console.log(`\n\u001b[32m✓ Branch "${name}" created at step ${this.executedMessages.length}\u001b[0m (current branch: ${this.currentBranch})\n`);
+  }
+
+  // Перейти на другую ветку, сохранив текущую
+  private async switchBranch(name: string): Promise<void> {
+    if (name === this.currentBranch) {
+      console.log(`\n\u001b[33mAlready on branch "${name}"\u001b[0m\n`);
+      return;
+    }
+
+    const target = this.branches.get(name);
+    if (!target) {
+      console.log(`\n\u001b[33mUnknown branch "${name}". Known: ${this.branchNames().join(', ')}\u001b[0m\n`);
+      return;
+    }
+
+    this.branches.set(this.currentBranch, { session: this.captureSession(), history: this.history });
+    this.branches.delete(name);
+
+    await this.restoreSession(target.session);
+    this.history = target.history;
+    this.currentBranch = name;
+
+    console.log(`\n\u001b[32m✓ Switched to branch "${name}"\u001b[0m (${this.executedMessages.length} messages executed)`);
+    this.showQueue();
+  }
+
+  // Вывести все ветки
+  private listBranches(): void {
+    console.log(`\n\u001b[33mBranches:\u001b[0m\n`);
+    for (const name of this.branchNames()) {
+      const session = this.branchSession(name);
+      const marker = name === this.currentBranch ? '\u001b[32m*\u001b[0m' : ' ';
+      console.log(
+        `  ${marker} \u001b[36m${name}\u001b[0m: ` +
+        `executed \u001b[35m${session.executedMessages.length}\u001b[0m, ` +
+        `queued \u001b[35m${session.queue.length}\u001b[0m, ` +
+        `order: \u001b[34m${session.executedMessages.map(m => m.id).join(' ') || '-'}\u001b[0m`
+      );
+    }
+    console.log();
+  }
+
+  // Сравнить состояния контрактов и логи сообщений двух веток
+  private diffBranches(name1: string, name2: string): void {
+    const missing = [name1, name2].filter(n => !this.branchNames().includes(n));
+    if (missing.length > 0) {
+      console.log(`\n\u001b[33mUnknown branches: ${missing.join(', ')}\u001b[0m\n`);
+      return;
+    }
+
+    const session1 = this.branchSession(name1);
+    const session2 = this.branchSession(name2);
+
+    for (const contract of this.contracts.values()) {
+      const state1 = serializeShardAccount(findSnapshotAccount(session1.blockchain, contract.address));
+      const state2 = serializeShardAccount(findSnapshotAccount(session2.blockchain, contract.address));
+
+      console.log(`\n\u001b[33mContract ${contract.alias}:\u001b[0m ${name1} → ${name2}\n`);
+      if (JSON.stringify(state1) === JSON.stringify(state2)) {
+        console.log(`  \u001b[32mno differences\u001b[0m`);
+      } else {
+        this.compareObjects(state1, state2);
+      }
+    }
+
+    // лог сообщений: общий префикс и место, где ветки разошлись
+    const log1 = session1.executedMessages.map(m => m.id);
+    const log2 = session2.executedMessages.map(m => m.id);
+    let common = 0;
+    while (common < log1.length && common < log2.length && log1[common] === log2[common]) {
+      common++;
+    }
+
+    console.log(`\n\u001b[33mMessage log:\u001b[0m`);
+    console.log(`  ${name1}: \u001b[34m${log1.join(' ') || '-'}\u001b[0m`);
+    console.log(`  ${name2}: \u001b[34m${log2.join(' ') || '-'}\u001b[0m`);
+    if (common === log1.length && common === log2.length) {
+      console.log(`  \u001b[32msame order\u001b[0m\n`);
+    } else {
+      console.log(`  \u001b[35mdiverged at step ${common + 1}\u001b[0m\n`);
+    }
+  }
+
+  // имена веток, текущая первой --- внутренняя функция
+  private branchNames(): string[] {
+    return [this.currentBranch, ...this.branches.keys()];
+  }
+
+  // сессия ветки (для текущей --- живое состояние) --- внутренняя функция
+  private branchSession(name: string): SessionSnapshot {
+    return name === this.currentBranch ? this.captureSession() : this.branches.get(name)!.session;
+  }
+
+  // Положить исходящие internal сообщения транзакции в очередь --- внутренняя функция
+  private enqueueOutMessages(parent: Transaction): { enqueued: number; dropped: number } {
+    const description = parent.transaction.description;
+    const bounced = description.type === 'generic' && description.bouncePhase?.type === 'ok';
+
+    let count = 0;
+    let dropped = 0;
+    for (const out of parent.transaction.outMessages.values()) {
+      if (out.info.type !== 'internal') {
+        continue;
+      }
+
+      // отскок, который сформировал сам эмулятор после неудачной compute/action фазы
+      const isBounce = bounced && out.info.bounced;
+      if (isBounce && this.bounceMode === 'off') {
+        dropped++;
+        continue;
+      }
+
+      count++;
+      this.queue.push({
+        id: this.nextMessageId(),
+        type: 'internal',
+        body: out.body,
+        sender: out.info.src,
+        dest: out.info.dest,
+        value: { coins: out.info.value.coins, extraCurrencies: extractExtraCurrencies(out.info.value.other) },
+        name: isBounce ? `bounce of message ${parent.message.id}` : `out #${count} of message ${parent.message.id}`,
+        parent: parent,
+        bounce: out.info.bounce,
+        bounced: out.info.bounced,
+        ihrDisabled: out.info.ihrDisabled,
+        forwardFee: out.info.forwardFee,
+        createdAt: out.info.createdAt,
+        createdLt: out.info.createdLt,
+        stateInit: out.init ?? undefined
+      });
+    }
+    return { enqueued: count, dropped };
+  }
+
+  // Сохранить external-out сообщения транзакции в лог событий --- внутренняя функция
+  private collectEvents(parent: Transaction): number {
+    let count = 0;
+    for (const out of parent.transaction.outMessages.values()) {
+      if (out.info.type !== 'external-out') {
+        continue;
+      }
+
+      count++;
+      this.events.push({
+        id: this.events.length + 1,
+        type: 'external-out',
+        body: out.body,
+        sender: out.info.src,
+        name: `event #${count} of message ${parent.message.id}`,
+        parent: parent,
+        createdAt: out.info.createdAt,
+        createdLt: out.info.createdLt,
+        extDest: out.info.dest?.toString()
+      });
+    }
+    return count;
+  }
+
+  // Вывести лог событий (external-out), с номером N --- только события транзакции N
+  private showEvents(txNumber?: number): void {
+    if (txNumber !== undefined && (isNaN(txNumber) || txNumber < 1 || txNumber > this.transactions.length)) {
+      console.log(`\n\u001b[33mUsage: show events [N], N in 1..${this.transactions.length}\u001b[0m\n`);
+      return;
+    }
+
+    const events = txNumber !== undefined
+      ? this.events.filter(e => e.parent === this.transactions[txNumber - 1])
+      : this.events;
+    if (events.length === 0) {
+      console.log(`\n\u001b[33mNo events emitted\u001b[0m\n`);
+      return;
+    }
+
+    console.log(`\n\u001b[32mEvents (${events.length}):\u001b[0m\n`);
+    for (const event of events) {
+      const tx = event.parent!;
+      console.log(
+        `  \u001b[36m${event.id.toString().padStart(2, ' ')}.\u001b[0m ` +
+        `Tx \u001b[33m${this.transactions.indexOf(tx) + 1}\u001b[0m on \u001b[36m${tx.contract}\u001b[0m ` +
+        `(message ${tx.message.id}${tx.message.name ? `, ${tx.message.name}` : ''}), ` +
+        `to: \u001b[34m${event.extDest ?? 'none'}\u001b[0m, lt \u001b[35m${event.createdLt}\u001b[0m\n` +
+        `      ${describeBody(event.body)}`
+      );
+    }
+    console.log();
+  }
+
+  // Следующий свободный id сообщения (учитываем очередь, уже исполненные и все выданные раньше, в том числе отменённые rewind)
+  private nextMessageId(): number {
+    const ids = [...this.queue, ...this.executedMessages].map(m => m.id);
+    this.lastMessageId = Math.max(this.lastMessageId, ...ids) + 1;
+    return this.lastMessageId;
+  }
+
+  // Добавить библиотеки в blockchain.libs (код по ссылке на библиотеку исполняется только если она там есть)
+  private installLibraries(libraries: Record<string, Cell>): void {
+    if (Object.keys(libraries).length === 0) {
+      return;
+    }
+
+    const libs = this.loadLibraries();
+    for (const [hash, cell] of Object.entries(libraries)) {
+      libs.set(Buffer.from(hash, 'hex'), cell);
+    }
+    this.blockchain.libs = beginCell().storeDictDirect(libs).endCell();
+  }
+
+  private loadLibraries(): Dictionary<Buffer, Cell> {
+    return this.blockchain.libs
+      ? Dictionary.loadDirect(Dictionary.Keys.Buffer(32), Dictionary.Values.Cell(), this.blockchain.libs)
+      : Dictionary.empty(Dictionary.Keys.Buffer(32), Dictionary.Values.Cell());
+  }
+
+  // Если код контракта --- ссылка на библиотеку, вернуть её хэш и настоящий код из blockchain.libs --- внутренняя функция
+  private async resolveLibraryCode(address: Address): Promise<{ hash: string; code?: Cell } | undefined> {
+    const state = (await this.blockchain.getContract(address)).account.account?.storage.state;
+    if (state?.type !== 'active' || !state.state.code || state.state.code.type !== CellType.Library) {
+      return undefined;
+    }
+
+    const hash = state.state.code.beginParse(true).skip(8).loadBuffer(32);
+    return { hash: hash.toString('hex'), code: this.loadLibraries().get(hash) };
+  }
+
+  // Вернуть текущее состояние --- внутренняя функция
+  private async getCurrentState(address: Address = this.contractAddress): Promise<ContractState> {
+    const provider: SandboxContract<any> = this.blockchain.provider(address);
+    const state = await provider.getState();
+    const duePayment = (await this.blockchain.getContract(address)).account.account?.storageStats.duePayment;
+    
+    return {
+      balance: state.balance,
+      type: state.state.type,
+      code: state.state.type === 'active' ? state.state.code : undefined,
+      data: state.state.type === 'active' ? state.state.data : undefined,
+      stateHash: state.state.type === 'frozen' ? state.state.stateHash.toString('hex') : undefined,
+      duePayment: duePayment ?? undefined,
+      extraCurrencies: state.extracurrency ?? {},
+      lastTransaction: state.last ? {
+          lt: state.last.lt.toString(),
+          hash: state.last.hash.toString('hex')
+      } : undefined
+    };
+  }
+
+  // Сохраняем текущее состояние контракта в файл ---  внутренняя функция
+  private async saveState(path: string, alias?: string): Promise<void> {
+    const serialized = await this.serializeState(alias);
+    await fs.promises.writeFile(path, JSON.stringify(serialized, null, 2));
+    console.log(`\n\u001b[32m✓ State saved to ${path}\u001b[0m\n`);
+  }
+
+  // Текущее состояние контракта в формате файла состояния --- внутренняя функция
+  private async serializeState(alias?: string): Promise<Record<string, any>> {
+    const address = this.getContract(alias).address;
+    const state = await this.getCurrentState(address);
+    const library = await this.resolveLibraryCode(address);
+
+    return {
+        last: state.lastTransaction ? {
+          lt: state.lastTransaction.lt.toString(),
+          hash: state.lastTransaction.hash} : null,
+        balance: state.balance?.toString(),
+        code: state.code?.toString('hex'),
+        data: state.data?.toString('hex'),
+        type: state.type,
+        stateHash: state.stateHash,
+        duePayment: state.duePayment?.toString(),
+        extracurrency: serializeExtraCurrencies(state.extraCurrencies),
+        // библиотеку кода сохраняем вместе с состоянием, чтобы файл загружался в новой сессии
+        libraries: library?.code ? { [library.hash]: library.code.toBoc().toString('hex') } : undefined
+    };
+  }
+
+  // Загрузить конфиг блокчейна: ячейка (BOC, base64, hex) или JSON-оверлей поверх текущего
+  private loadConfig(path: string): void {
+    if (!fs.existsSync(path)) {
+      console.log(`\n\u001b[33mFile not found: ${path}\u001b[0m\n`);
+      return;
+    }
+
+    try {
+      this.blockchain.setConfig(readConfigFile(path, this.blockchain.config));
+      this.configSource = path;
+      console.log(`\n\u001b[32m✓ Config loaded from ${path}\u001b[0m`);
+      this.showConfig();
+    } catch (err) {
+      console.error(`\u001b[31m✖\u001b[0m Failed to load config: \u001b[33m${err instanceof Error ? err.message : String(err)}\u001b[0m`);
+    }
+  }
+
+  // Действующие цены газа, пересылки и хранения
+  private showConfig(): void {
+    const params = Dictionary.loadDirect(Dictionary.Keys.Int(32), Dictionary.Values.Cell(), this.blockchain.config);
+    const param = (id: number) => params.get(id)?.beginParse();
+
+    console.log(`\n\u001b[33mBlockchain config:\u001b[0m ${this.configSource} (hash \u001b[35m${this.blockchain.config.hash().toString('hex')}\u001b[0m)\n`);
+
+    for (const [title, id] of [['basechain', 21], ['masterchain', 20]] as const) {
+      const gas = configParseGasLimitsPrices(param(id));
+      console.log(`  \u001b[36mGas prices (${title}, param ${id}):\u001b[0m`);
+      console.log(`    gasPrice \u001b[35m${gas.other.gasPrice}\u001b[0m (${Number(gas.other.gasPrice) / 65536} nanoton/gas), flatLimit \u001b[35m${gas.flatLimit}\u001b[0m, flatGasPrice \u001b[35m${gas.flatGasPrice}\u001b[0m`);
+      console.log(`    gasLimit \u001b[35m${gas.other.gasLimit}\u001b[0m, specialGasLimit \u001b[35m${gas.other.specialGasLimit ?? '-'}\u001b[0m, gasCredit \u001b[35m${gas.other.gasCredit}\u001b[0m, blockGasLimit \u001b[35m${gas.other.blockGasLimit}\u001b[0m`);
+      console.log(`    freezeDueLimit \u001b[35m${gas.other.freezeDueLimit}\u001b[0m, deleteDueLimit \u001b[35m${gas.other.deleteDueLimit}\u001b[0m`);
+    }
+
+    for (const [title, id] of [['basechain', 25], ['masterchain', 24]] as const) {
+      const msg = configParseMsgPrices(param(id));
+      console.log(`  \u001b[36mMessage forwarding prices (${title}, param ${id}):\u001b[0m`);
+      console.log(`    lumpPrice \u001b[35m${msg.lumpPrice}\u001b[0m, bitPrice \u001b[35m${msg.bitPrice}\u001b[0m, cellPrice \u001b[35m${msg.cellPrice}\u001b[0m, ihrPriceFactor \u001b[35m${msg.ihrPriceFactor}\u001b[0m, firstFrac \u001b[35m${msg.firstFrac}\u001b[0m, nextFrac \u001b[35m${msg.nextFrac}\u001b[0m`);
+    }
+
+    const storage = configParse18(param(18));
+    const current = storage[storage.length - 1];
+    if (current) {
+      console.log(`  \u001b[36mStorage prices (param 18, since ${current.utime_since}):\u001b[0m`);
+      console.log(`    bitPrice \u001b[35m${current.bit_price_ps}\u001b[0m, cellPrice \u001b[35m${current.cell_price_ps}\u001b[0m, mcBitPrice \u001b[35m${current.mc_bit_price_ps}\u001b[0m, mcCellPrice \u001b[35m${current.mc_cell_price_ps}\u001b[0m`);
+    }
+    console.log();
+  }
+
+  // все команды начинающиеся на run --- внутренняя функция
+  private async handleRunCommand(params: string[]): Promise<void> {
+    if (params.length === 0) {
+        console.log(`\n\u001b[33mUsage: run <next|message <id>|get-method <method> [args...] [--contract alias]>\u001b[0m\n`);
+        return;
+    }
+
+    switch (params[0]) {
+        case 'next':
+            await this.runNextMessage();
+            break;
+        case 'message':
+            if (params.length < 2) {
                 console.log(`\n\u001b[33mPlease specify message ID\u001b[0m\n`);
                 return;
             }
             await this.runSpecificMessage(parseInt(params[1]));
             break;
-        // case 'get-method':
-        //     if (params.length < 3 || params[1] !== '--name') {
-        //       console.log(`\n\u001b[33mUsage: run get-method --name <method>\u001b[0m\n`);
-        //         return;
-        //     }
-        //     await this.runGetMethod(params[2]);
-        //     break;
+        case 'get-method':
+            await this.runGetMethod(params.slice(1));
+            break;
         default:
             console.log('Invalid run command');
     }
   }
 
+  // Вызвать get-метод: run get-method <method> [args...] [--contract alias] --- внутренняя функция
+  private async runGetMethod(params: string[]): Promise<void> {
+    const contractIdx = params.indexOf('--contract');
+    const alias = contractIdx !== -1 ? params[contractIdx + 1] : undefined;
+    const rest = contractIdx !== -1 ? [...params.slice(0, contractIdx), ...params.slice(contractIdx + 2)] : params;
+
+    if (rest.length === 0 || (contractIdx !== -1 && !alias)) {
+      console.log(`
+        \u001b[33mUsage: run get-method <method> [args...] [--contract alias]\u001b[0m
+        \u001b[36mArguments:\u001b[0m int:<n>, address:<addr>, cell:<boc>, slice:<boc> (boc in base64 or 0x-prefixed hex)
+        \u001b[36mUntyped:\u001b[0m numbers (decimal or 0x hex) become int, addresses become slice
+      `);
+      return;
+    }
+
+    const [method, ...rawArgs] = rest;
+    const contract = this.getContract(alias);
+    // если геттер объявлен в исходнике, аргументы без типа приводим к объявленным типам параметров
+    const signature = contract.getters.find(g => g.name === method);
+
+    let stack: TupleItem[];
+    try {
+      stack = rawArgs.map((arg, i) => parseGetMethodArg(arg, signature?.params[i]?.type));
+    } catch (err) {
+      console.log(`\n\u001b[33mInvalid argument: ${err instanceof Error ? err.message : String(err)}\u001b[0m\n`);
+      return;
+    }
+
+    const methodId = /^\d+$/.test(method) ? parseInt(method) : method;
+
+    try {
+      const result = await this.blockchain.runGetMethod(contract.address, methodId, stack);
+      // лишние аргументы остаются на стеке, и позиции результата уже не совпадают с объявленными типами
+      const declared = signature && rawArgs.length === signature.params.length ? signature : undefined;
+      this.printGetMethodResult(method, contract.alias, result.exitCode, result.gasUsed, result.stack, declared);
+    } catch (err) {
+      if (err instanceof GetMethodError) {
+        // TVM завершился с ненулевым кодом, стека нет, но код и газ есть
+        this.printGetMethodResult(method, contract.alias, err.exitCode, err.gasUsed, [], signature);
+        return;
+      }
+      console.error(`\u001b[31m✖\u001b[0m Failed to run get-method "${method}": \u001b[33m${err instanceof Error ? err.message : String(err)}\u001b[0m`);
+    }
+  }
+
+  // Вывести результат get-метода со всем стеком (по сигнатуре --- с объявленными типами) --- внутренняя функция
+  private printGetMethodResult(method: string, alias: string, exitCode: number, gasUsed: bigint, stack: TupleItem[], signature?: GetterSignature): void {
+    const exitColor = exitCode === 0 || exitCode === 1 ? '32' : '31';
+    console.log(`
+      \u001b[33mGet-method\u001b[0m \u001b[32m${method}\u001b[0m on \u001b[36m${alias}\u001b[0m:
+        \u001b[33mExit Code:\u001b[0m \u001b[${exitColor}m${exitCode}\u001b[0m
+        \u001b[33mGas Used:\u001b[0m  \u001b[35m${gasUsed}\u001b[0m
+        \u001b[33mStack:\u001b[0m     \u001b[35m${stack.length}\u001b[0m entries`);
+
+    // типы из сигнатуры применяем, только если стек ей соответствует
+    const returnTypes = signature && stack.length === signature.returnTypes.length ? signature.returnTypes : undefined;
+    if (signature && stack.length > 0 && !returnTypes) {
+      console.log(`          \u001b[37m(stack does not match ${formatGetterSignature(signature)}, shown as is)\u001b[0m`);
+    }
+    stack.forEach((item, i) => {
+      const declared = returnTypes?.[i];
+      const type = declared ?? item.type;
+      const value = declared ? decodeStackEntry(item, declared) : formatStackEntry(item);
+      console.log(`          \u001b[36m${i}.\u001b[0m \u001b[34m${type.padEnd(7)}\u001b[0m ${value}`);
+    });
+    console.log();
+  }
+
+  // Геттеры, найденные в исходниках; геттеры без параметров сразу вызываем
+  private async showGetters(alias?: string): Promise<void> {
+    const contracts = alias !== undefined ? [this.getContract(alias)] : [...this.contracts.values()];
+
+    for (const contract of contracts) {
+      console.log(`\n\u001b[33mGet-methods of\u001b[0m \u001b[36m${contract.alias}\u001b[0m: \u001b[35m${contract.getters.length}\u001b[0m\n`);
+
+      for (const getter of contract.getters) {
+        console.log(`  \u001b[32m${formatGetterSignature(getter)}\u001b[0m`);
+        if (getter.params.length > 0) {
+          console.log(`      \u001b[37m(takes arguments: run get-method ${getter.name} ...)\u001b[0m`);
+          continue;
+        }
+
+        try {
+          const result = await this.blockchain.runGetMethod(contract.address, getter.name, []);
+          const declared = result.stack.length === getter.returnTypes.length;
+          result.stack.forEach((item, i) => {
+            const type = declared ? getter.returnTypes[i] : item.type;
+            console.log(`      \u001b[34m${type.padEnd(7)}\u001b[0m ${declared ? decodeStackEntry(item, type) : formatStackEntry(item)}`);
+          });
+        } catch (err) {
+          const reason = err instanceof GetMethodError ? `exit code ${err.exitCode}` : (err instanceof Error ? err.message : String(err));
+          console.log(`      \u001b[31m✖ ${reason}\u001b[0m`);
+        }
+      }
+    }
+    console.log();
+  }
+
   private showHelp(): void {
       console.log(`
     \u001b[36m╔════════════════════════════════════════════════════╗
@@ -585,20 +1647,42 @@ class TONDebugConsole {
   
       \u001b[32mrun next\u001b[0m                           - Execute next message from queue
       \u001b[32mrun message \u001b[35m<id>\u001b[0m                   - Execute specific message by ID
-      \u001b[32mcontinue\u001b[0m                           - Execute all remaining messages
+      \u001b[32mcontinue\u001b[0m                           - Execute all remaining messages (stops at breakpoints)
+      \u001b[32mbreak \u001b[35m<condition>|list|delete N\u001b[0m     - Manage breakpoints for continue (see "break")
+      \u001b[32mrewind \u001b[35m[N]\u001b[0m                         - Undo execution back to before step N (default: last step)
+      \u001b[32mbranch \u001b[35mlist|create|switch <name>\u001b[0m   - Fork the session and move between branches
+      \u001b[32mbranch diff \u001b[35m<name1> <name2>\u001b[0m         - Compare contract states and message logs of branches
+      \u001b[32mtime \u001b[35mshow|set <unix>|advance <s>\u001b[0m    - Show or drive the blockchain clock (now())
+      \u001b[32mexplore \u001b[35m[--limit N]\u001b[0m                - Try every order of the queue (DFS), report distinct final states
+      \u001b[32mexperiment \u001b[35m--invariant <file> ...\u001b[0m   - Shuffled runs checked by an invariant (--runs, --state, --queue)
+      \u001b[32mminimize \u001b[35m[--out <path>]\u001b[0m              - Shrink the failing experiment order to a minimal queue JSON
       \u001b[32mqueue list\u001b[0m                         - Show message queue
       \u001b[32mset queue \u001b[35m--order reverse/random\u001b[0m   - Reorder queue
+      \u001b[32mset seed \u001b[35m[N]\u001b[0m                     - Show or set the seed of random shuffles (replays them exactly)
+      \u001b[32mset bounce \u001b[35mauto|off\u001b[0m                - Enqueue or drop bounces of failed bounceable messages
       \u001b[32madd messages \u001b[35m<path>\u001b[0m                - Add messages from JSON file
       \u001b[32mdelete message \u001b[35m<id>\u001b[0m                - Remove message from queue
       \u001b[32mscript load \u001b[35m<path>\u001b[0m                 - Load custom queue script
       \u001b[32mscript run\u001b[0m                         - Execute custom queue script
 
-      \u001b[32mshow state\u001b[0m                         - Show current contract state
-      \u001b[32mload state \u001b[35m<path>\u001b[0m                  - Load state from file
-      \u001b[32msave state \u001b[35m<path>\u001b[0m                  - Save current state to file
-      \u001b[32mdiff \u001b[35m<path1> <path2>\u001b[0m               - Compare two state files
+      \u001b[32mshow state \u001b[35m[alias]\u001b[0m                 - Show current contract state
+      \u001b[32mrun get-method \u001b[35m<name> [args...]\u001b[0m     - Call a getter (args: int:, address:, cell:, slice:; --contract alias)
+      \u001b[32mshow getters \u001b[35m[alias]\u001b[0m               - List get-methods declared in the source with decoded values
+      \u001b[32mload state \u001b[35m<path> [alias]\u001b[0m          - Load state from file
+      \u001b[32msave state \u001b[35m<path> [alias]\u001b[0m          - Save current state to file
+      \u001b[32mdiff \u001b[35m<path|alias> <path|alias>\u001b[0m     - Compare two state files or live contracts
+      \u001b[32mload config \u001b[35m<path>\u001b[0m                 - Load blockchain config (BOC/base64/hex cell or JSON overlay)
+      \u001b[32mshow config\u001b[0m                        - Show effective gas, forwarding and storage prices
+      \u001b[32mshow senders\u001b[0m                       - Show sender wallets with their balances
 
       \u001b[32mshow transactions\u001b[0m                  - List executed transactions
+      \u001b[32mshow trace \u001b[35m[N]\u001b[0m                     - Show message/transaction tree (of transaction N)
+      \u001b[32mshow events \u001b[35m[N]\u001b[0m                    - Show external-out messages (of transaction N)
+      \u001b[32mset verbosity \u001b[35m<level>\u001b[0m              - Capture VM logs (vm_logs|vm_logs_gas|vm_logs_full|none)
+      \u001b[32mshow vmlog \u001b[35mN [page]\u001b[0m                - Page through VM log of transaction N
+      \u001b[32mshow gas\u001b[0m                           - Gas and fee profile by message name, sender and op code
+      \u001b[32mset gas-budget \u001b[35m<name> <limit|off>\u001b[0m   - Warn when a message uses more gas than its budget
+      \u001b[32mstep \u001b[35m[count|reset]\u001b[0m                 - Step through VM log of the last transaction
       \u001b[32mshow message log\u001b[0m                   - Show executed messages log
 
       \u001b[32mhelp\u001b[0m                               - Show this help message
@@ -644,27 +1728,239 @@ class TONDebugConsole {
         \u001b[33mTotal messages:\u001b[0m \u001b[35m${this.queue.length}\u001b[0m
       `);
 
-    while (this.queue.length > 0) {
-        await this.runNextMessage();
+    // изменения геттеров считаем от состояния на момент запуска continue
+    for (const bp of this.breakpoints) {
+        if (bp.condition.kind === 'getter') {
+            bp.condition.lastValue = await this.readGetterValue(bp.condition.method, bp.condition.alias);
+        }
     }
 
-    console.log(`\n\u001b[32m✓ All messages executed successfully!\u001b[0m\n`);
-  }
+    while (this.queue.length > 0) {
+        // брейкпоинты на сообщение срабатывают до его исполнения; сообщение, перед которым уже остановились,
+        // пропускаем, иначе continue сразу остановился бы снова на нём же
+        const head = this.queue[0];
+        const hitsBefore = head.id === this.pausedBefore ? [] : this.checkMessageBreakpoints(head);
+        this.pausedBefore = undefined;
+        if (hitsBefore.length > 0) {
+            this.pausedBefore = head.id;
+            this.reportBreakpointHits(hitsBefore);
+            return;
+        }
 
-  // все команды начинающиеся на show --- внутренняя функция
+        const txCount = this.transactions.length;
+        await this.runNextMessage();
+        if (this.transactions.length === txCount) {
+            continue;
+        }
+
+        const hitsAfter = await this.checkStateBreakpoints(this.transactions[this.transactions.length - 1]);
+        if (hitsAfter.length > 0) {
+            this.reportBreakpointHits(hitsAfter);
+            return;
+        }
+    }
+
+    console.log(`\n\u001b[32m✓ All messages executed successfully!\u001b[0m\n`);
+  }
+
+  // работа с брейкпоинтами --- внутренняя функция
+  private async handleBreakCommand(params: string[]): Promise<void> {
+    const usage = () => console.log(`
+      \u001b[33mUsage:\u001b[0m
+        \u001b[32mbreak exit \u001b[35m[code]\u001b[0m                   - Stop when a transaction exits with non-zero (or given) code
+        \u001b[32mbreak message \u001b[35m<id>\u001b[0m                 - Stop before message <id> executes
+        \u001b[32mbreak name \u001b[35m<text>\u001b[0m                  - Stop before a message whose name contains <text>
+        \u001b[32mbreak sender \u001b[35m<id>\u001b[0m                  - Stop before a message from sender <id>
+        \u001b[32mbreak balance \u001b[35m<op> <value> [alias]\u001b[0m  - Stop when contract balance matches (op: < <= > >= ==)
+        \u001b[32mbreak getter \u001b[35m<method> [alias]\u001b[0m      - Stop when getter result changes
+        \u001b[32mbreak list\u001b[0m | \u001b[32mdelete \u001b[35m<N>\u001b[0m | \u001b[32mdisable \u001b[35m<N>\u001b[0m | \u001b[32menable \u001b[35m<N>\u001b[0m
+    `);
+
+    let condition: BreakCondition;
+    switch (params[0]) {
+      case 'list':
+        this.listBreakpoints();
+        return;
+      case 'delete':
+      case 'disable':
+      case 'enable': {
+        const bp = this.breakpoints.find(b => b.id === parseInt(params[1]));
+        if (!bp) {
+          console.log(`\n\u001b[33mBreakpoint ${params[1]} not found\u001b[0m\n`);
+          return;
+        }
+        if (params[0] === 'delete') {
+          this.breakpoints = this.breakpoints.filter(b => b !== bp);
+        } else {
+          bp.enabled = params[0] === 'enable';
+        }
+        console.log(`\n\u001b[32m✓ Breakpoint ${bp.id} ${params[0]}d\u001b[0m\n`);
+        return;
+      }
+      case 'exit':
+        condition = { kind: 'exit', code: params[1] !== undefined ? parseInt(params[1]) : undefined };
+        if (condition.code !== undefined && isNaN(condition.code)) return usage();
+        break;
+      case 'message':
+        condition = { kind: 'message', id: parseInt(params[1]) };
+        if (isNaN(condition.id)) return usage();
+        break;
+      case 'name':
+        if (params.length < 2) return usage();
+        condition = { kind: 'name', name: params.slice(1).join(' ') };
+        break;
+      case 'sender':
+        condition = { kind: 'sender', senderId: parseInt(params[1]) };
+        if (isNaN(condition.senderId)) return usage();
+        break;
+      case 'balance': {
+        const op = params[1];
+        if (!['<', '<=', '>', '>=', '=='].includes(op) || params[2] === undefined) return usage();
+        condition = { kind: 'balance', op: op as '<' | '<=' | '>' | '>=' | '==', value: BigInt(params[2]), alias: params[3] };
+        this.getContract(params[3]);
+        break;
+      }
+      case 'getter':
+        if (params.length < 2) return usage();
+        condition = { kind: 'getter', method: params[1], alias: params[2] };
+        // запоминаем текущее значение, срабатываем когда оно изменится
+        condition.lastValue = await this.readGetterValue(params[1], params[2]);
+        break;
+      default:
+        return usage();
+    }
+
+    const id = this.breakpoints.length > 0 ? Math.max(...this.breakpoints.map(b => b.id)) + 1 : 1;
+    const bp: Breakpoint = { id, enabled: true, hits: 0, condition };
+    this.breakpoints.push(bp);
+    console.log(`\n\u001b[32m✓ Breakpoint ${id} set:\u001b[0m ${describeBreakCondition(condition)}\n`);
+  }
+
+  // показать список брейкпоинтов
+  private listBreakpoints(): void {
+    if (this.breakpoints.length === 0) {
+        console.log(`\n\u001b[33mNo breakpoints set\u001b[0m\n`);
+        return;
+    }
+
+    console.log(`\n\u001b[33mBreakpoints:\u001b[0m \u001b[33m${this.breakpoints.length}\u001b[0m\n`);
+    this.breakpoints.forEach(bp => {
+        console.log(
+          `  \u001b[36m${bp.id.toString().padStart(2, ' ')}.\u001b[0m ` +
+          `${bp.enabled ? '\u001b[32menabled \u001b[0m' : '\u001b[31mdisabled\u001b[0m'} ` +
+          `${describeBreakCondition(bp.condition)}, hits: \u001b[34m${bp.hits}\u001b[0m`
+        );
+    });
+    console.log('');
+  }
+
+  // брейкпоинты, которые проверяются до исполнения сообщения
+  private checkMessageBreakpoints(message: Message): BreakpointHit[] {
+    const hits: BreakpointHit[] = [];
+    for (const bp of this.breakpoints.filter(b => b.enabled)) {
+      const c = bp.condition;
+      const hit =
+        (c.kind === 'message' && message.id === c.id) ||
+        (c.kind === 'name' && (message.name ?? '').includes(c.name)) ||
+        (c.kind === 'sender' && Number(this.senderByAddr(message.sender)) === c.senderId);
+      if (hit) {
+        hits.push({ breakpoint: bp, reason: `next message is ${message.id} (${message.name || 'unnamed'})` });
+      }
+    }
+    return hits;
+  }
+
+  // брейкпоинты, которые проверяются после транзакции
+  private async checkStateBreakpoints(tx: Transaction): Promise<BreakpointHit[]> {
+    const hits: BreakpointHit[] = [];
+    for (const bp of this.breakpoints.filter(b => b.enabled)) {
+      const c = bp.condition;
+      let reason: string | null = null;
+
+      if (c.kind === 'exit') {
+        const { exitCode } = summarizeTransaction(tx.transaction);
+        if (exitCode !== undefined && (c.code !== undefined ? exitCode === c.code : exitCode !== 0 && exitCode !== 1)) {
+          reason = `transaction ${this.transactions.indexOf(tx) + 1} exited with code ${exitCode}`;
+        }
+      } else if (c.kind === 'balance') {
+        const contract = this.getContract(c.alias);
+        const balance = (await this.getCurrentState(contract.address)).balance ?? 0n;
+        if (compareBigInt(balance, c.op, c.value)) {
+          reason = `${contract.alias} balance is ${balance}`;
+        }
+      } else if (c.kind === 'getter') {
+        const value = await this.readGetterValue(c.method, c.alias);
+        if (value !== c.lastValue) {
+          reason = `${c.method}() changed: ${c.lastValue} -> ${value}`;
+        }
+        c.lastValue = value;
+      }
+
+      if (reason) {
+        hits.push({ breakpoint: bp, reason });
+      }
+    }
+    return hits;
+  }
+
+  // сообщить об остановке на брейкпоинтах
+  private reportBreakpointHits(hits: BreakpointHit[]): void {
+    for (const { breakpoint, reason } of hits) {
+      breakpoint.hits++;
+      console.log(`
+        \u001b[33m⏸ Breakpoint ${breakpoint.id} hit:\u001b[0m ${describeBreakCondition(breakpoint.condition)}
+          \u001b[36m${reason}\u001b[0m`);
+    }
+    console.log(`
+          \u001b[33mRemaining messages:\u001b[0m \u001b[35m${this.queue.length}\u001b[0m (type \u001b[32mcontinue\u001b[0m to resume)
+    `);
+  }
+
+  // результат геттера одной строкой (для сравнения между шагами)
+  private async readGetterValue(method: string, alias?: string): Promise<string> {
+    try {
+      const result = await this.blockchain.runGetMethod(this.getContract(alias).address, method, []);
+      return `[${result.stack.map(formatTupleItem).join(', ')}]`;
+    } catch (err) {
+      return `error: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  }
+
+  // все команды начинающиеся на show --- внутренняя функция
   private async handleShowCommand(params: string[]): Promise<void> {
     if (params.length === 0) {
-      console.log(`\n\u001b[33mUsage: show <state|transactions|message log>\u001b[0m\n`);
+      console.log(`\n\u001b[33mUsage: show <state [alias]|getters [alias]|senders|transactions|trace [N]|events [N]|gas|config|vmlog N [page]|message log>\u001b[0m\n`);
       return;
     }
 
     switch (params[0]) {
       case 'state':
-          await this.showState();
+          await this.showState(params[1]);
+          break;
+      case 'getters':
+          await this.showGetters(params[1]);
           break;
       case 'transactions':
           this.showTransactions();
           break;
+      case 'trace':
+          this.showTrace(params[1] !== undefined ? parseInt(params[1]) : undefined);
+          break;
+      case 'events':
+          this.showEvents(params[1] !== undefined ? parseInt(params[1]) : undefined);
+          break;
+      case 'gas':
+          this.showGas();
+          break;
+      case 'config':
+          this.showConfig();
+          break;
+      case 'senders':
+          await this.showSenders();
+          break;
+      case 'vmlog':
+          this.showVmLog(parseInt(params[1]), params[2] !== undefined ? parseInt(params[2]) : 1);
+          break;
       case 'message':
           if (params[1] === 'log') {
               this.showMessageLog();
@@ -676,14 +1972,16 @@ class TONDebugConsole {
   }
 
   // показать текущее состояние
-  private async showState(): Promise<void> {
-    const state = await this.getCurrentState();
+  private async showState(alias?: string): Promise<void> {
+    const contract = this.getContract(alias);
+    const state = await this.getCurrentState(contract.address);
 
     console.log(`
       \u001b[36m╔════════════════════════════════════════════════════╗
       \u001b[36m║\u001b[1;34m              Current Contract State                \u001b[0;36m║
       \u001b[36m╚════════════════════════════════════════════════════╝\u001b[0m
     
+      \u001b[33mContract:\u001b[0m \u001b[32m${contract.alias}\u001b[0m (\u001b[35m${contract.address.toString()}\u001b[0m)
       \u001b[33mBalance:\u001b[0m \u001b[35m${state.balance?.toString() || 'N/A'}\u001b[0m
       \u001b[33mStatus:\u001b[0m  \u001b[32m${state.type || 'unknown'}\u001b[0m
     `);
@@ -694,6 +1992,14 @@ class TONDebugConsole {
       \u001b[33mCode:\u001b[0m \u001b[36m${state.code?.toString('hex') || 'null'}\u001b[0m
       \u001b[33mData:\u001b[0m \u001b[36m${state.data?.toString('hex') || 'null'}\u001b[0m
         `);
+
+        const library = await this.resolveLibraryCode(contract.address);
+        if (library) {
+          console.log(`      \u001b[33mLibrary:\u001b[0m \u001b[35m${library.hash}\u001b[0m`);
+          console.log(library.code
+            ? `      \u001b[33mResolved Code:\u001b[0m \u001b[36m${library.code.toBoc().toString('hex')}\u001b[0m\n`
+            : `      \u001b[31mLibrary is not installed, the code cannot run\u001b[0m\n`);
+        }
         break;
       case 'frozen':
         console.log(`
@@ -701,6 +2007,13 @@ class TONDebugConsole {
         `);
         break;
     }
+
+    if (state.duePayment !== undefined) {
+      console.log(`      \u001b[33mDue Payment:\u001b[0m \u001b[31m${state.duePayment}\u001b[0m`);
+    }
+    if (formatExtraCurrencies(state.extraCurrencies)) {
+      console.log(`      \u001b[33mExtra Currencies:\u001b[0m \u001b[35m${formatExtraCurrencies(state.extraCurrencies)}\u001b[0m`);
+    }
     
     if (state.lastTransaction) {
       console.log(`
@@ -725,6 +2038,7 @@ class TONDebugConsole {
         console.log(`    
           \u001b[33m\n${i + 1}. ${tx.transaction.hash().toString('hex')}\u001b[0m
 
+          \u001b[33mContract:\u001b[0m         \u001b[32m${tx.contract}\u001b[0m
           \u001b[33mContract Address:\u001b[0m \u001b[35m${tx.transaction.address}\u001b[0m
           \u001b[33mCurrent Balance:\u001b[0m  \u001b[32m${tx.stateChanges.balance}\u001b[0m
         
@@ -743,6 +2057,156 @@ class TONDebugConsole {
     });
   }
 
+  // показать дерево причинно-следственных связей: сообщение -> транзакция -> исходящие сообщения -> ...
+  // с номером N показываем только каскад, в который входит транзакция N
+  private showTrace(n?: number): void {
+    if (this.transactions.length === 0) {
+        console.log(`\n\u001b[33mNo transactions yet\u001b[0m\n`);
+        return;
+    }
+
+    let roots: Transaction[];
+    if (n !== undefined) {
+        if (isNaN(n) || n < 1 || n > this.transactions.length) {
+            console.log(`\n\u001b[33mTransaction ${n} not found (1..${this.transactions.length})\u001b[0m\n`);
+            return;
+        }
+        // поднимаемся до корневого сообщения каскада
+        let root = this.transactions[n - 1];
+        while (root.message.parent) {
+            root = root.message.parent;
+        }
+        roots = [root];
+    } else {
+        roots = this.transactions.filter(tx => !tx.message.parent);
+    }
+
+    console.log(`\n\u001b[32mTrace (${roots.length} root message${roots.length === 1 ? '' : 's'}):\u001b[0m\n`);
+    for (const root of roots) {
+        console.log(`  ${this.describeTraceMessage(root.message)}`);
+        this.printTraceTransaction(root, '  ');
+        console.log('');
+    }
+  }
+
+  // узел транзакции в дереве вместе с её исходящими сообщениями --- внутренняя функция
+  private printTraceTransaction(tx: Transaction, prefix: string): void {
+    const summary = summarizeTransaction(tx.transaction);
+    const highlight = summary.exitCode === 0 || summary.exitCode === 1 ? '\u001b[32m' : '\u001b[31m';
+    console.log(
+      `${prefix}└─ \u001b[33mTx ${this.transactions.indexOf(tx) + 1}\u001b[0m on \u001b[36m${tx.contract}\u001b[0m: ` +
+      `exit ${highlight}${summary.exitCode ?? summary.computeSkipped ?? 'n/a'}\u001b[0m, ` +
+      `action ${summary.actionCode ?? 'n/a'}, ` +
+      `gas \u001b[35m${summary.gasUsed ?? 0n}\u001b[0m, ` +
+      `value out \u001b[35m${summary.valueOut}\u001b[0m`
+    );
+
+    const childPrefix = prefix + '   ';
+    const children = [...this.executedMessages, ...this.queue].filter(m => m.parent === tx);
+    children.forEach((msg, i) => {
+      const last = i === children.length - 1;
+      console.log(`${childPrefix}${last ? '└─' : '├─'} ${this.describeTraceMessage(msg)}`);
+
+      const childTx = this.transactions.find(t => t.message === msg);
+      const nextPrefix = childPrefix + (last ? '   ' : '│  ');
+      if (childTx) {
+        this.printTraceTransaction(childTx, nextPrefix);
+      } else {
+        console.log(`${nextPrefix}└─ \u001b[33mpending in queue\u001b[0m`);
+      }
+    });
+  }
+
+  // подпись сообщения в дереве
+  private describeTraceMessage(msg: Message): string {
+    return `\u001b[34mMessage ${msg.id}\u001b[0m (${msg.name || 'unnamed'}) ` +
+      `${this.senderLabel(msg.sender)} → ${this.destLabel(msg)}, ` +
+      `value \u001b[35m${msg.value?.coins ?? 0n}${formatExtraCurrencies(msg.value?.extraCurrencies, ' + ')}\u001b[0m`;
+  }
+
+  // показать страницу лога TVM транзакции N (по шагам, со стеком на каждом шаге)
+  private showVmLog(n: number, page: number): void {
+    if (isNaN(n) || n < 1 || n > this.transactions.length) {
+        console.log(`\n\u001b[33mUsage: show vmlog N [page], N in 1..${this.transactions.length}\u001b[0m\n`);
+        return;
+    }
+
+    const steps = parseVmLog(this.transactions[n - 1].transaction.vmLogs);
+    if (steps.length === 0) {
+        console.log(`\n\u001b[33mNo VM log captured for transaction ${n}. Run "set verbosity vm_logs_full" before executing it\u001b[0m\n`);
+        return;
+    }
+
+    const pages = Math.ceil(steps.length / VMLOG_PAGE_SIZE);
+    if (isNaN(page) || page < 1 || page > pages) {
+        console.log(`\n\u001b[33mPage ${page} not found (1..${pages})\u001b[0m\n`);
+        return;
+    }
+
+    console.log(`\n\u001b[32mVM log of transaction ${n}: ${steps.length} steps, page ${page}/${pages}\u001b[0m\n`);
+    const from = (page - 1) * VMLOG_PAGE_SIZE;
+    steps.slice(from, from + VMLOG_PAGE_SIZE).forEach((step, i) => this.printVmStep(step, from + i + 1));
+    if (page < pages) {
+        console.log(`\n  \u001b[36mNext page:\u001b[0m show vmlog ${n} ${page + 1}\n`);
+    }
+  }
+
+  // пошаговый проход по логу TVM последней транзакции
+  private handleStepCommand(params: string[]): void {
+    const last = this.transactions[this.transactions.length - 1];
+    if (!last) {
+        console.log(`\n\u001b[33mNo transactions yet\u001b[0m\n`);
+        return;
+    }
+
+    // новая транзакция или явный reset --- начинаем сначала
+    if (!this.vmStepCursor || this.vmStepCursor.tx !== last || params[0] === 'reset') {
+        this.vmStepCursor = { tx: last, steps: parseVmLog(last.transaction.vmLogs), position: 0 };
+        if (params[0] === 'reset') {
+            console.log(`\n\u001b[32m✓ Stepping restarted at transaction ${this.transactions.length}\u001b[0m\n`);
+            return;
+        }
+    }
+
+    const cursor = this.vmStepCursor;
+    if (cursor.steps.length === 0) {
+        console.log(`\n\u001b[33mNo VM log captured for the last transaction. Run "set verbosity vm_logs_full" before executing it\u001b[0m\n`);
+        return;
+    }
+
+    if (cursor.position >= cursor.steps.length) {
+        console.log(`\n\u001b[33mEnd of VM log (${cursor.steps.length} steps). Use "step reset" to start over\u001b[0m\n`);
+        return;
+    }
+
+    const count = params[0] !== undefined ? parseInt(params[0]) : 1;
+    if (isNaN(count) || count < 1) {
+        console.log(`\n\u001b[33mUsage: step [count|reset]\u001b[0m\n`);
+        return;
+    }
+
+    const end = Math.min(cursor.position + count, cursor.steps.length);
+    for (; cursor.position < end; cursor.position++) {
+        this.printVmStep(cursor.steps[cursor.position], cursor.position + 1);
+    }
+    console.log(`\n  \u001b[36mStep ${cursor.position}/${cursor.steps.length}\u001b[0m\n`);
+  }
+
+  // вывести один шаг TVM
+  private printVmStep(step: VmLogStep, num: number): void {
+    console.log(
+      `  \u001b[36m${num.toString().padStart(4, ' ')}.\u001b[0m \u001b[32m${step.instruction}\u001b[0m` +
+      (step.gasRemaining !== undefined ? `  \u001b[33mgas remaining:\u001b[0m ${step.gasRemaining}` : '')
+    );
+    if (step.location) {
+      console.log(`        \u001b[33mat:\u001b[0m ${step.location}`);
+    }
+    if (step.stack) {
+      console.log(`        \u001b[33mstack:\u001b[0m ${step.stack}`);
+    }
+    step.notes.forEach(note => console.log(`        \u001b[31m${note}\u001b[0m`));
+  }
+
   // показать лог сообщений
   private showMessageLog(): void {
     if (this.executedMessages.length === 0) {
@@ -758,70 +2222,82 @@ class TONDebugConsole {
         `ID: \u001b[34m${msg.id}\u001b[0m, ` +
         `Name: \u001b[34m${msg.name || 'unnamed'},\u001b[0m ` +
         `Type: \u001b[34m${msg.type}, \u001b[0m ` +
-        `from Sender: \u001b[34m${this.senderByAddr(msg.sender)}\u001b[0m\n`
+        `from Sender: \u001b[34m${this.senderLabel(msg.sender)}\u001b[0m, ` +
+        `to: \u001b[34m${this.destLabel(msg)}\u001b[0m` +
+        this.describeParent(msg) + describeEnvelope(msg) + `\n`
       );
     });
   }
 
   // задать состояние TVM вручную
   private async handleLoadCommand(params: string[]): Promise<void> {
+    if (params[0] === 'config' && params.length >= 2) {
+      this.loadConfig(params[1]);
+      return;
+    }
+
     if (params.length < 2 || params[0] !== 'state') {
-      console.log(`\n\u001b[33mUsage: load state <path>\u001b[0m\n`);
+      console.log(`\n\u001b[33mUsage: load <state <path> [alias]|config <path>>\u001b[0m\n`);
       return;
     }
 
     const path = params[1];
+    const contract = this.getContract(params[2]);
     if (!fs.existsSync(path)) {
       console.log(`\n\u001b[33mFile not found: ${path}\u001b[0m\n`);
       return;
     }
 
     try {
-      const data = await fs.promises.readFile(path, 'utf-8');
-      const state = JSON.parse(data);
-      
-      const balance = BigInt(state.balance);
-      await this.blockchain.setShardAccount(
-          this.contractAddress,
-          createShardAccount({
-            address: this.contractAddress,
-            code: state.code ? Cell.fromBoc(Buffer.from(state.code, "base64"))[0] : this.codeCell,
-            data: state.data ? Cell.fromBoc(Buffer.from(state.data, "base64"))[0] : new Cell(),
-            balance: balance
-          })
-      );
+      await this.applyStateFile(path, contract);
 
       console.log(`\n\u001b[32m✓ State loaded.\u001b[0m\n`);
-      console.log(await this.showState());
+      console.log(await this.showState(contract.alias));
       
-      this.stateHistory.push(await this.getCurrentState());
+      this.stateHistory.push(await this.getCurrentState(contract.address));
     } catch (err) {
       console.error(`\u001b[31m✖\u001b[0m Failed to load state: \u001b[33m${err instanceof Error ? err.message : String(err)}\u001b[0m`);
     }
   }
 
+  // Поставить контракту состояние из файла (load state, experiment --state) --- внутренняя функция
+  private async applyStateFile(path: string, contract: DebugContract): Promise<void> {
+    const state = parseStateFile(JSON.parse(await fs.promises.readFile(path, 'utf-8')));
+    if (state.balance === undefined) {
+      throw new Error('State file must contain balance');
+    }
+
+    this.installLibraries(state.libraries ?? {});
+    await this.blockchain.setShardAccount(
+        contract.address,
+        createAccountFromState(contract.address, state, state.code ?? contract.codeCell, state.data ?? new Cell())
+    );
+  }
+
   // Сохранить состояние TVM по конкретному пути --- внутренняя функция
   private async handleSaveCommand(params: string[]): Promise<void> {
     if (params.length < 2 || params[0] !== 'state') {
-      console.log(`\n\u001b[33mUsage: save state <path>\u001b[0m\n`);
+      console.log(`\n\u001b[33mUsage: save state <path> [alias]\u001b[0m\n`);
       return;
     }
 
-    await this.saveState(params[1]);
+    await this.saveState(params[1], params[2]);
   }
 
-  // сравнить состояния по пути 1 и 2
+  // сравнить состояния по пути 1 и 2 (вместо пути можно указать алиас контракта --- берём его текущее состояние)
   private async diffStates(path1: string, path2: string): Promise<void> {
-    if (!fs.existsSync(path1) || !fs.existsSync(path2)) {
-      console.log(`\n\u001b[33mOne or both state files not found\u001b[0m\n`);
+    const missing = [path1, path2].filter(p => !this.contracts.has(p) && !fs.existsSync(p));
+    if (missing.length > 0) {
+      console.log(`\n\u001b[33mState files or contract aliases not found: ${missing.join(', ')}\u001b[0m\n`);
       return;
     }
 
     try {
-      const [state1, state2] = await Promise.all([
-        fs.promises.readFile(path1, 'utf-8').then(JSON.parse),
-        fs.promises.readFile(path2, 'utf-8').then(JSON.parse)
-      ]);
+      const [state1, state2] = await Promise.all([path1, path2].map(p =>
+        this.contracts.has(p)
+          ? this.serializeState(p)
+          : fs.promises.readFile(p, 'utf-8').then(JSON.parse)
+      ));
 
       console.log(`\n\u001b[33mComparing states:\u001b[0m\n`);
       this.compareObjects(state1, state2);
@@ -837,12 +2313,17 @@ class TONDebugConsole {
     for (const key of allKeys) {
       const currentPath = path ? `${path}.${key}` : key;
       
-      if (!(key in obj1)) {
+      // незаданное поле живого состояния равносильно отсутствующему в файле
+      if (obj1[key] === undefined && obj2[key] === undefined) {
+        continue;
+      }
+
+      if (obj1[key] === undefined) {
         console.log(`+ ${currentPath}: ${JSON.stringify(obj2[key])} (added)`);
         continue;
       }
 
-      if (!(key in obj2)) {
+      if (obj2[key] === undefined) {
         console.log(`- ${currentPath}: ${JSON.stringify(obj1[key])} (removed)`);
         continue;
       }
@@ -883,13 +2364,41 @@ class TONDebugConsole {
         `ID: \u001b[34m${msg.id}\u001b[0m, ` +
         `Name: \u001b[34m${msg.name || 'unnamed'},\u001b[0m ` +
         `Type: \u001b[34m${msg.type}, \u001b[0m ` +
-        `from Sender: \u001b[34m${this.senderByAddr(msg.sender)}\u001b[0m\n`
+        `from Sender: \u001b[34m${this.senderLabel(msg.sender)}\u001b[0m, ` +
+        `to: \u001b[34m${this.destLabel(msg)}\u001b[0m` +
+        this.describeParent(msg) + describeEnvelope(msg) + `\n`
       );
     });
   }
 
+  // откуда пришло сообщение: номер транзакции, которая его отправила
+  private describeParent(msg: Message): string {
+    if (!msg.parent) {
+      return '';
+    }
+    return `, from Tx: \u001b[34m${this.transactions.indexOf(msg.parent) + 1}\u001b[0m`;
+  }
+
+  // кто отправил: id отправителя из очереди или алиас нашего контракта
+  private senderLabel(addr: Address): string {
+    const senderId = this.senderByAddr(addr);
+    if (senderId !== undefined) {
+      return String(senderId);
+    }
+    return this.aliasByAddr(addr) ?? addr.toString();
+  }
+
+  // кому адресовано сообщение
+  private destLabel(msg: Message): string {
+    if (msg.dest) {
+      return this.aliasByAddr(msg.dest) ?? this.senderLabel(msg.dest);
+    }
+    return msg.to ?? this.getContract().alias;
+  }
+
   private senderByAddr(addr: Address): number | undefined {
-    return (Object.entries(SENDERS_LIST).find(([, a]) => a.equals(addr)))?.[0] as unknown as number | undefined;
+    const entry = Object.entries(SENDERS_LIST).find(([, a]) => a.equals(addr));
+    return entry ? Number(entry[0]) : undefined;
   }
 
   // добавить сообщения из JSON file
@@ -901,12 +2410,12 @@ class TONDebugConsole {
 
     try {
       const messages = await loadMessageQueue(path);
+      this.checkMessageAliases(messages);
+      await this.deploySenderWallets();
       
-      let maxId = this.queue.length > 0 
-        ? Math.max(...this.queue.map(m => m.id)) 
-        : 0;
+      // id не должны совпадать с уже исполненными: по ним работают break message, branch diff и minimize
       messages.forEach(msg => {
-        msg.id = ++maxId;
+        msg.id = this.nextMessageId();
         this.queue.push(msg);
       });
 
@@ -931,12 +2440,35 @@ class TONDebugConsole {
 
   // возможность изменить порядок сообщений: рандомоно перемешать \ развернуть список
   private async handleSetCommand(params: string[]): Promise<void> {
-    if (params.length < 3 || params[0] !== 'queue' || params[1] !== '--order') {
+    switch (params[0]) {
+      case 'queue':
+        this.setQueueOrder(params.slice(1));
+        break;
+      case 'verbosity':
+        this.setVerbosity(params[1]);
+        break;
+      case 'bounce':
+        this.setBounceMode(params[1]);
+        break;
+      case 'gas-budget':
+        this.setGasBudget(params.slice(1));
+        break;
+      case 'seed':
+        this.setSeed(params[1]);
+        break;
+      default:
+        console.log(`\n\u001b[33mUsage: set <queue --order <reverse/random>|verbosity <level>|bounce <auto|off>|gas-budget <name> <limit>|seed [N]>\u001b[0m\n`);
+    }
+  }
+
+  // изменить порядок очереди
+  private setQueueOrder(params: string[]): void {
+    if (params.length < 2 || params[0] !== '--order') {
       console.log(`\n\u001b[33mUsage: set queue --order <reverse/random>\u001b[0m\n`);
       return;
     }
 
-    const order = params[2];
+    const order = params[1];
     switch (order) {
       case 'reverse':
         this.queue.reverse();
@@ -951,6 +2483,33 @@ class TONDebugConsole {
     }
   }
 
+  // auto --- отскоки упавших bounceable сообщений попадают в очередь, off --- отбрасываются
+  private setBounceMode(mode: string | undefined): void {
+    if (mode !== 'auto' && mode !== 'off') {
+      console.log(`\n\u001b[33mUsage: set bounce <auto|off>\u001b[0m (current: ${this.bounceMode})\n`);
+      return;
+    }
+
+    this.bounceMode = mode;
+    console.log(`\n\u001b[32m✓ Bounce simulation set to ${mode}\u001b[0m\n`);
+  }
+
+  // включить запись логов TVM для следующих транзакций
+  private setVerbosity(level: string | undefined): void {
+    if (!level || !(VM_VERBOSITY_LEVELS as readonly string[]).includes(level)) {
+      console.log(`\n\u001b[33mUsage: set verbosity <${VM_VERBOSITY_LEVELS.join('|')}>\u001b[0m\n`);
+      return;
+    }
+
+    // print выключен: логи не сыпятся в консоль, а сохраняются в транзакции и смотрятся через show vmlog / step
+    this.blockchain.verbosity = {
+      ...this.blockchain.verbosity,
+      print: false,
+      vmLogs: level as Verbosity
+    };
+    console.log(`\n\u001b[32m✓ VM log verbosity set to ${level}\u001b[0m\n`);
+  }
+
   // возможность задать порядок сообщений по скрипту пользователя
   private async handleScriptCommand(params: string[]): Promise<void> {
     if (params.length === 0) {
@@ -974,292 +2533,1133 @@ class TONDebugConsole {
     }
   }
 
-  // рандомно перемешать очередь
+  // рандомно перемешать очередь (сид и получившийся порядок печатаем, чтобы перемешивание можно было повторить)
   private shuffleQueue(): void {
+    const seed = RANDOM_STATE;
     for (let i = this.queue.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(nextRandom() * (i + 1));
       [this.queue[i], this.queue[j]] = [this.queue[j], this.queue[i]];
     }
+    console.log(`  \u001b[33m🎲 Shuffled with seed\u001b[0m \u001b[35m${seed}\u001b[0m: ${this.queue.map(m => m.id).join(', ')}`);
+  }
+
+  // задать сид генератора (без аргумента --- показать текущий)
+  private setSeed(raw: string | undefined): void {
+    if (raw === undefined) {
+      console.log(`\n\u001b[33mCurrent seed:\u001b[0m \u001b[35m${RANDOM_STATE}\u001b[0m\n`);
+      return;
+    }
+
+    const seed = parseSeed(raw);
+    if (seed === undefined) {
+      console.log(`\n\u001b[33mUsage: set seed [N]\u001b[0m (N --- integer in 0..4294967295)\n`);
+      return;
+    }
+    RANDOM_STATE = seed;
+    console.log(`\n\u001b[32m✓ Seed set to ${seed}\u001b[0m\n`);
+  }
+
+  // загружаем скрипт по переданному пути
+  private async loadScript(filePath: string): Promise<void> {
+    if (!fs.existsSync(filePath)) {
+        console.error(`
+          \u001b[31m✖ File not found:\u001b[0m \u001b[33m${filePath}\u001b[0m
+            `);
+        return;
+    }
+
+    try {
+        const modifyQueue = loadUserFunction(filePath, 'modifyQueue');
+        if (typeof modifyQueue !== 'function') {
+            console.error(`
+              \u001b[31m✖ Invalid script format:\u001b[0m
+              \u001b[36mScript must export function "modifyQueue(queue)"\u001b[0m
+                  `);
+            return;
+        }
+        this.scriptFn = modifyQueue as (q: Message[], random: () => number) => void;
+        console.log(`
+          \u001b[1;32m✓ Script loaded successfully!\u001b[0m
+          \u001b[36mFile:\u001b[0m \u001b[33m${filePath}\u001b[0m
+            `);
+    } catch (err) {
+      console.error(`
+        \u001b[31m✖ Failed to load script\u001b[0m
+        \u001b[33mError:\u001b[0m \u001b[37m${err instanceof Error ? err.message : String(err)}\u001b[0m
+            `);
+    }
+  }
+
+  // применяем скрипт к очереди
+  private async runScript(): Promise<void> {
+      if (!this.scriptFn) {
+          console.error(`\n \u001b[31m✖ No script loaded – nothing to run\u001b[0m \n`);
+          return;
+      }
+      // скрипту отдаём тот же сидированный генератор, что и set queue --order random
+      const seed = RANDOM_STATE;
+      await this.scriptFn(this.queue, nextRandom);
+      console.log(`  \u001b[33m🎲 Script ran with seed\u001b[0m \u001b[35m${seed}\u001b[0m: ${this.queue.map(m => m.id).join(', ')}`);
+      console.log(`
+        \u001b[1;32m✓ Script executed successfully!\u001b[0m
+        \u001b[36mQueue modified:\u001b[0m \u001b[33m${this.queue.length}\u001b[0m messages
+        `);
+      this.showQueue();
+  }
+
+}
+
+// Загрузить функцию из пользовательского модуля (.js или .ts): скрипты очереди, инварианты experiment
+function loadUserFunction(filePath: string, name: string): unknown {
+    let script = fs.readFileSync(filePath, 'utf-8');
+
+    if (filePath.endsWith('.ts')) {
+        script = ts.transpileModule(script, {
+          compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2020
+          }
+        }).outputText;
+    }
+
+    // в .js без сборки export не работает --- превращаем в обычную функцию и экспортируем сами
+    const exported = new RegExp(`export\\s+(async\\s+)?function\\s+${name}\\b`);
+    if (exported.test(script)) {
+        script = script.replace(exported, (_, async) => `${async ?? ''}function ${name}`)
+          + `\nmodule.exports.${name} = ${name};`;
+    }
+
+    const module = { exports: {} as Record<string, any> };
+    const wrapped =
+        `(function (exports, module, require) { ${script}\n})(module.exports, module, require);`;
+    eval(wrapped);
+    return module.exports[name];
+}
+
+// Компиляция контракта
+async function compileContract(contractPath: string): Promise<CompiledContract> {
+  console.log(`
+    \u001b[36m╔════════════════════════════════════════════════════╗
+    ║\u001b[1;34m          TON Contract Compilation Started          \u001b[0;36m║
+    ╚════════════════════════════════════════════════════╝\u001b[0m
+    `);
+
+  const compileResult = await compileFunc({
+    targets: [contractPath],
+    sources: (x) => fs.readFileSync(x).toString("utf8"),
+  });
+
+  if (compileResult.status === "error") {
+    console.error(`
+      \u001b[1;31m✖ Compilation Failed\u001b[0m
+    
+      \u001b[33mCompiler output:\u001b[0m
+      \u001b[37m${compileResult.message}\u001b[0m
+        `);
+    throw new Error("Compilation failed");
+  }
+
+  const codeCell = Cell.fromBoc(Buffer.from(compileResult.codeBoc, "base64"))[0];
+  console.log(`
+    \u001b[1;32m✓ Compilation successful!\u001b[0m
+    `);
+
+  // геттеры ищем во всех исходниках, которые подтянул компилятор (включая #include)
+  const getters = compileResult.snapshot.flatMap(source => parseFuncGetters(source.content));
+  if (getters.length > 0) {
+    console.log(`  \u001b[33m• Found get-methods:\u001b[0m \u001b[36m${getters.map(g => g.name).join(', ')}\u001b[0m`);
+  }
+  
+  if (!fs.existsSync('tmp')) {
+    fs.mkdirSync('tmp');
+    console.log('  \u001b[33m• Created tmp directory\u001b[0m');
+  }
+
+  const hexArtifact = `tmp/tondebug.compiled.json`;
+
+  fs.writeFileSync(
+    hexArtifact,
+    JSON.stringify({
+      hex: Cell.fromBoc(Buffer.from(compileResult.codeBoc, "base64"))[0]
+        .toBoc()
+        .toString("base64"),
+    })
+  );
+
+  console.log(`
+    \u001b[33mCompiled artifact saved to:\u001b[0m \u001b[36m${hexArtifact}\u001b[0m
+    `);
+
+  return { codeCell, getters };
+}
+
+// Начальное состояние
+async function validateInitState(path: string): Promise<ContractState> {
+  console.log(`
+    \u001b[36m╔════════════════════════════════════════════════════╗
+    ║\u001b[1;34m          Validating Contract Initial State         \u001b[0;36m║
+    ╚════════════════════════════════════════════════════╝\u001b[0m
+    `);
+
+  const state = JSON.parse(fs.readFileSync(path, 'utf-8'));
+
+  // last и state --- поля файлов из save state, last при загрузке не используется
+  const validFields = ['balance', 'code', 'data', 'type', 'stateHash', 'duePayment', 'extracurrency', 'libraries', 'last', 'state'];
+  const invalidFields = Object.keys(state).filter(
+      key => !validFields.includes(key)
+  );
+      
+  if (invalidFields.length > 0) {
+     console.error(`
+      \u001b[31m✖ Invalid fields detected:\u001b[0m \u001b[33m${invalidFields.join(', ')}\u001b[0m
+      \u001b[36mAllowed fields:\u001b[0m ${validFields.map(f => `\u001b[35m${f}\u001b[0m`).join(', ')}
+          `);
+      throw new Error(`Invalid fields in state file: ${invalidFields.join(', ')}`);
+  }
+      
+  const resultState = parseStateFile(state);
+  if (resultState.balance === undefined && !resultState.code && !resultState.data && !resultState.type && !resultState.libraries) {
+    console.error(`
+      \u001b[31m✖ Empty state file\u001b[0m
+      \u001b[36mState must contain at least one of:\u001b[0m
+        \u001b[35mbalance\u001b[0m, \u001b[35mcode\u001b[0m, \u001b[35mdata\u001b[0m or \u001b[35mtype\u001b[0m
+          `);
+    throw new Error('State file must contain at least one of: balance, code, data, type');
+  } 
+
+  console.log(`
+    \u001b[1;32m✓ Initial state validation complete!\u001b[0m
+      `);
+
+  return resultState;
+}
+
+// Загружаем очередь сообщений для обработки в TON Debug Console
+export async function loadMessageQueue(path: string): Promise<Message[]> {
+  console.log(`
+    \u001b[36m╔════════════════════════════════════════════════════╗
+    ║\u001b[1;34m              Loading Message Queue                 \u001b[0;36m║
+    ╚════════════════════════════════════════════════════╝\u001b[0m
+    `);
+  try {
+    if (!fs.existsSync(path)) {
+      console.error(`
+        \u001b[31m✖ Error:\u001b[0m File not found
+        \u001b[36mPlease verify the path exists:\u001b[0m
+        \u001b[33m${path}\u001b[0m
+            `);
+        throw new Error(`Queue file not found: ${path}`);
+    }
+    const messages = JSON.parse(fs.readFileSync(path, 'utf-8'));
+    if (!Array.isArray(messages)) {
+      console.error(`
+        \u001b[31m✖ Invalid format:\u001b[0m
+        \u001b[36mQueue file must contain an array of messages\u001b[0m
+            `);
+        throw new Error('Queue file must contain an array of messages');
+    }
+    const badType = messages.find(msg => msg.type !== undefined && msg.type !== 'internal' && msg.type !== 'external-in');
+    if (badType) {
+        throw new Error(`Message ${badType.id}: type must be "internal" or "external-in"`);
+    }
+    const badAlias = messages.find(msg => msg.to !== undefined && typeof msg.to !== 'string');
+    if (badAlias) {
+        throw new Error(`Message ${badAlias.id}: "to" must be a contract alias string`);
+    }
+    const res =  messages.map((msg, i) => ({
+        id: msg.id || i + 1,
+        type: msg.type || 'internal',
+        sender: setSender(msg),
+        to: msg.to,
+        body: msg.body ? Cell.fromBoc(Buffer.from(msg.body, 'base64'))[0] : new Cell(),
+        value: parseMessageValue(msg.value, msg.id || i + 1),
+        name: msg.name,
+        ...parseMessageEnvelope(msg, msg.id || i + 1)
+    }));
+    console.log(`
+      \u001b[1;32m✓ Message queue loaded successfully!\u001b[0m
+        `);
+    return res;
+  } catch (err) {
+    console.error(`
+  \u001b[31m✖ Failed to load message queue:\u001b[0m \u001b[33m${err}\u001b[0m
+    `);
+    throw err;
+  }
+}
+
+// Следующее псевдослучайное число в [0, 1) (mulberry32)
+function nextRandom(): number {
+    RANDOM_STATE = (RANDOM_STATE + 0x6D2B79F5) >>> 0;
+    let t = RANDOM_STATE;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function parseSeed(raw: string): number | undefined {
+    const seed = Number(raw);
+    return /^\d+$/.test(raw) && seed <= 0xffffffff ? seed : undefined;
+}
+
+// Необязательные поля конверта из файла очереди (bounce, bounced, ihrDisabled, forwardFee, createdAt, createdLt, stateInit)
+// и задержка delaySeconds перед исполнением
+export function parseMessageEnvelope(raw: any, id: number): Partial<Message> {
+    const envelope: Partial<Message> = {};
+
+    for (const flag of ['bounce', 'bounced', 'ihrDisabled'] as const) {
+        if (raw[flag] !== undefined) {
+            if (typeof raw[flag] !== 'boolean') {
+                throw new Error(`Message ${id}: "${flag}" must be a boolean`);
+            }
+            envelope[flag] = raw[flag];
+        }
+    }
+
+    if (raw.forwardFee !== undefined) {
+        envelope.forwardFee = parseEnvelopeNumber(raw.forwardFee, 'forwardFee', id, 120);
+    }
+    if (raw.createdLt !== undefined) {
+        envelope.createdLt = parseEnvelopeNumber(raw.createdLt, 'createdLt', id, 64);
+    }
+    if (raw.createdAt !== undefined) {
+        if (!Number.isInteger(raw.createdAt) || raw.createdAt < 0 || raw.createdAt > 0xffffffff) {
+            throw new Error(`Message ${id}: "createdAt" must be a unix time (uint32)`);
+        }
+        envelope.createdAt = raw.createdAt;
+    }
+
+    if (raw.stateInit !== undefined) {
+        envelope.stateInit = parseStateInit(raw.stateInit, id);
+    }
+    if (raw.deploy !== undefined) {
+        if (typeof raw.deploy !== 'boolean') {
+            throw new Error(`Message ${id}: "deploy" must be a boolean`);
+        }
+        envelope.deploy = raw.deploy;
+    }
+
+    if (raw.delaySeconds !== undefined) {
+        if (!Number.isInteger(raw.delaySeconds) || raw.delaySeconds < 0) {
+            throw new Error(`Message ${id}: "delaySeconds" must be a non-negative integer`);
+        }
+        envelope.delaySeconds = raw.delaySeconds;
+    }
+
+    return envelope;
+}
+
+// неотрицательное целое из числа или строки, меньше 2^bits (монеты --- 2^120, lt --- 2^64) --- внутренняя функция
+function parseEnvelopeNumber(value: unknown, field: string, id: number, bits: number): bigint {
+    if ((typeof value !== 'number' && typeof value !== 'string') || !/^\d+$/.test(String(value)) || BigInt(value) >= 2n ** BigInt(bits)) {
+        throw new Error(`Message ${id}: "${field}" must be a non-negative integer below 2^${bits}`);
+    }
+    return BigInt(value);
+}
+
+// value из файла очереди: coins строкой или числом, extraCurrencies --- { id: количество } или null
+function parseMessageValue(raw: any, id: number): Message['value'] {
+    if (raw === undefined || raw === null) {
+        return undefined;
+    }
+
+    return {
+        coins: parseEnvelopeNumber(raw.coins ?? 0, 'value.coins', id, 120),
+        extraCurrencies: raw.extraCurrencies === undefined || raw.extraCurrencies === null
+            ? null
+            : parseExtraCurrencies(raw.extraCurrencies, `Message ${id}: "value.extraCurrencies"`)
+    };
+}
+
+// Карта доп. валют { id: количество }: id --- uint32, количество --- VarUInteger 32
+function parseExtraCurrencies(raw: unknown, field: string): ExtraCurrency {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`${field} must be an object { currencyId: amount }`);
+    }
+
+    const ec: ExtraCurrency = {};
+    for (const [key, amount] of Object.entries(raw)) {
+        if (!/^\d+$/.test(key) || Number(key) > 0xffffffff) {
+            throw new Error(`${field}: currency id must be a 32-bit unsigned integer, got: ${key}`);
+        }
+        if ((typeof amount !== 'number' && typeof amount !== 'string') || !/^\d+$/.test(String(amount)) || BigInt(amount) >= 2n ** 248n) {
+            throw new Error(`${field}: amount of currency ${key} must be a non-negative integer below 2^248`);
+        }
+        ec[Number(key)] = BigInt(amount);
+    }
+    return ec;
+}
+
+// Доп. валюты в словарь CurrencyCollection (пустые не кладём вовсе)
+function packExtraCurrencies(ec: ExtraCurrency | null | undefined): Dictionary<number, bigint> | undefined {
+    const entries = Object.entries(ec ?? {}).filter(([, amount]) => amount > 0n);
+    if (entries.length === 0) {
+        return undefined;
+    }
+
+    const dict = Dictionary.empty(Dictionary.Keys.Uint(32), Dictionary.Values.BigVarUint(5));
+    for (const [id, amount] of entries) {
+        dict.set(Number(id), amount);
+    }
+    return dict;
+}
+
+function extractExtraCurrencies(dict: Dictionary<number, bigint> | null | undefined): ExtraCurrency {
+    const ec: ExtraCurrency = {};
+    for (const [id, amount] of dict ?? []) {
+        ec[id] = amount;
+    }
+    return ec;
+}
+
+// Доп. валюты для файла состояния: количества строками, как balance
+function serializeExtraCurrencies(ec: ExtraCurrency | null | undefined): Record<string, string> {
+    return Object.fromEntries(Object.entries(ec ?? {}).map(([id, amount]) => [id, amount.toString()]));
+}
+
+// "{1: 500, 2: 7}" или пустая строка, если доп. валют нет
+function formatExtraCurrencies(ec: ExtraCurrency | null | undefined, prefix: string = ''): string {
+    const entries = Object.entries(ec ?? {});
+    return entries.length > 0 ? `${prefix}{${entries.map(([id, amount]) => `${id}: ${amount}`).join(', ')}}` : '';
+}
+
+// stateInit задаётся BOC строкой (base64) или объектом { code, data } с base64 ячейками
+function parseStateInit(raw: unknown, id: number): StateInit {
+    try {
+        if (typeof raw === 'string') {
+            return loadStateInit(Cell.fromBoc(Buffer.from(raw, 'base64'))[0].beginParse());
+        }
+        if (raw && typeof raw === 'object') {
+            const { code, data } = raw as { code?: string; data?: string };
+            return {
+                code: code ? Cell.fromBoc(Buffer.from(code, 'base64'))[0] : undefined,
+                data: data ? Cell.fromBoc(Buffer.from(data, 'base64'))[0] : undefined
+            };
+        }
+    } catch (err) {
+        throw new Error(`Message ${id}: invalid "stateInit": ${err instanceof Error ? err.message : String(err)}`);
+    }
+    throw new Error(`Message ${id}: "stateInit" must be a base64 BOC or an object with code/data`);
+}
+
+// Тело сообщения: op-код (и текст комментария при op = 0) плюс сам BOC в base64
+function describeBody(body: Cell): string {
+    const slice = body.beginParse();
+    const boc = body.toBoc().toString('base64');
+    if (slice.remainingBits < 32) {
+        return slice.remainingBits === 0 && slice.remainingRefs === 0 ? 'empty' : boc;
+    }
+
+    const op = slice.loadUint(32);
+    if (op === 0) {
+        try {
+            return `comment "${slice.loadStringTail()}"`;
+        } catch {
+            // не текст --- выводим как есть
+        }
+    }
+    return `op \u001b[35m0x${op.toString(16).padStart(8, '0')}\u001b[0m, ${boc}`;
+}
+
+// Поля конверта, отличные от значений по умолчанию (для queue list)
+function describeEnvelope(msg: Message): string {
+    const fields: string[] = [];
+    if (msg.bounce === false) fields.push('bounce: false');
+    if (msg.bounced) fields.push('bounced: true');
+    if (msg.ihrDisabled === false) fields.push('ihrDisabled: false');
+    if (msg.forwardFee) fields.push(`forwardFee: ${msg.forwardFee}`);
+    if (msg.createdAt) fields.push(`createdAt: ${msg.createdAt}`);
+    if (msg.createdLt) fields.push(`createdLt: ${msg.createdLt}`);
+    if (msg.delaySeconds) fields.push(`delay: ${msg.delaySeconds}s`);
+    if (formatExtraCurrencies(msg.value?.extraCurrencies)) fields.push(`ec: ${formatExtraCurrencies(msg.value?.extraCurrencies)}`);
+    if (msg.deploy) fields.push('deploy');
+    if (msg.stateInit) fields.push('stateInit: ' + ([msg.stateInit.code && 'code', msg.stateInit.data && 'data'].filter(Boolean).join('+') || 'empty'));
+
+    return fields.length > 0 ? `, \u001b[35m${fields.join(', ')}\u001b[0m` : '';
+}
+
+// Прочитать конфиг из файла: JSON-оверлей накладывается на base, иначе это ячейка конфига (BOC, base64 или hex)
+function readConfigFile(path: string, base: Cell): Cell {
+    const raw = fs.readFileSync(path);
+    const text = raw.toString('utf-8').trim();
+
+    if (text.startsWith('{')) {
+        return applyConfigOverlay(base, JSON.parse(text));
+    }
+
+    // бинарный BOC начинается с магии b5ee9c72
+    const boc = raw.subarray(0, 4).toString('hex') === 'b5ee9c72'
+        ? raw
+        : Buffer.from(text, /^[0-9a-fA-F]+$/.test(text) ? 'hex' : 'base64');
+    const config = Cell.fromBoc(boc)[0];
+
+    // конфиг без цен газа песочница не примет --- проверяем сразу
+    const params = Dictionary.loadDirect(Dictionary.Keys.Int(32), Dictionary.Values.Cell(), config);
+    configParseGasLimitsPrices(params.get(21)?.beginParse());
+    configParseMsgPrices(params.get(25)?.beginParse());
+    return config;
+}
+
+// Наложить JSON-оверлей на словарь параметров конфига
+export function applyConfigOverlay(base: Cell, overlay: ConfigOverlay): Cell {
+    const params = Dictionary.loadDirect(Dictionary.Keys.Int(32), Dictionary.Values.Cell(), base);
+
+    for (const [id, boc] of Object.entries(overlay.params ?? {})) {
+        params.set(parseInt(id), Cell.fromBoc(Buffer.from(boc, 'base64'))[0]);
+    }
+
+    const chains = [['masterchain', 20, 24], ['basechain', 21, 25]] as const;
+    for (const [chain, gasId, msgId] of chains) {
+        const gasOverlay = overlay.gasPrices?.[chain];
+        if (gasOverlay) {
+            const gas = configParseGasLimitsPrices(params.get(gasId)?.beginParse());
+            params.set(gasId, storeGasLimitsPrices(mergeConfigFields(gas, gasOverlay, `gasPrices.${chain}`)));
+        }
+
+        const msgOverlay = overlay.msgPrices?.[chain];
+        if (msgOverlay) {
+            const msg = configParseMsgPrices(params.get(msgId)?.beginParse());
+            params.set(msgId, storeMsgPrices(mergeConfigFields(msg, msgOverlay, `msgPrices.${chain}`)));
+        }
+    }
+
+    return beginCell().storeDictDirect(params).endCell();
+}
+
+// Подставить поля оверлея (поля цен газа лежат и в корне, и в other) --- внутренняя функция
+function mergeConfigFields<T extends Record<string, any>>(current: T, overlay: Record<string, string | number>, where: string): T {
+    const result: any = { ...current, other: current.other ? { ...current.other } : undefined };
+    for (const [key, value] of Object.entries(overlay)) {
+        const target = key in current ? result : (result.other && key in result.other ? result.other : undefined);
+        if (!target) {
+            throw new Error(`Unknown config field ${where}.${key}`);
+        }
+        target[key] = typeof target[key] === 'bigint' ? BigInt(value) : Number(value);
+    }
+    return result;
+}
+
+// gas_flat_pfx#d1 + gas_prices_ext#de / gas_prices#dd
+export function storeGasLimitsPrices(gas: GasLimitsPrices): Cell {
+    const other = gas.other;
+    const builder = beginCell()
+        .storeUint(0xd1, 8)
+        .storeUint(gas.flatLimit, 64)
+        .storeUint(gas.flatGasPrice, 64)
+        .storeUint(other.specialGasLimit !== undefined ? 0xde : 0xdd, 8)
+        .storeUint(other.gasPrice, 64)
+        .storeUint(other.gasLimit, 64);
+    if (other.specialGasLimit !== undefined) {
+        builder.storeUint(other.specialGasLimit, 64);
+    }
+    return builder
+        .storeUint(other.gasCredit, 64)
+        .storeUint(other.blockGasLimit, 64)
+        .storeUint(other.freezeDueLimit, 64)
+        .storeUint(other.deleteDueLimit, 64)
+        .endCell();
+}
+
+// msg_forward_prices#ea
+export function storeMsgPrices(msg: MsgPrices): Cell {
+    return beginCell()
+        .storeUint(0xea, 8)
+        .storeUint(msg.lumpPrice, 64)
+        .storeUint(msg.bitPrice, 64)
+        .storeUint(msg.cellPrice, 64)
+        .storeUint(msg.ihrPriceFactor, 32)
+        .storeUint(msg.firstFrac, 16)
+        .storeUint(msg.nextFrac, 16)
+        .endCell();
+}
+
+// Аккаунт в любом статусе: active с кодом и данными, frozen (только хэш StateInit) или uninit (только баланс)
+function createAccountFromState(address: Address, state: ContractState, code: Cell, data: Cell): ShardAccount {
+    let accountState: AccountState;
+    switch (state.type ?? 'active') {
+        case 'active':
+            accountState = { type: 'active', state: { code, data } };
+            break;
+        case 'frozen': {
+            // без явного хэша замораживаем тот StateInit, который знаем --- им же потом можно разморозить
+            const stateHash = state.stateHash ?? beginCell().store(storeStateInit({ code, data })).endCell().hash().toString('hex');
+            accountState = { type: 'frozen', stateHash: BigInt('0x' + stateHash) };
+            break;
+        }
+        case 'uninit':
+            accountState = { type: 'uninit' };
+            break;
+    }
+
+    return {
+        account: {
+            addr: address,
+            storage: {
+                lastTransLt: 0n,
+                balance: { coins: state.balance ?? 0n, other: packExtraCurrencies(state.extraCurrencies) },
+                state: accountState
+            },
+            storageStats: {
+                used: { cells: 0n, bits: 0n, publicCells: 0n },
+                lastPaid: 0,
+                duePayment: state.duePayment ?? null
+            }
+        },
+        lastTransactionLt: 0n,
+        lastTransactionHash: 0n
+    };
+}
+
+// Файл состояния: плоский (как пишет save state) или с вложенным state (как states/first_state.json).
+// Ячейки принимаем и в hex, и в base64 --- save state пишет hex, а старые файлы бывают в base64
+export function parseStateFile(raw: any): ContractState {
+    const fields = { ...raw, ...(raw.state ?? {}) };
+    const state: ContractState = {};
+
+    if (fields.balance !== undefined) {
+        state.balance = parseBigIntArg(String(fields.balance));
+        if (state.balance < 0n) {
+            throw new Error(`balance must not be negative: ${fields.balance}`);
+        }
+    }
+    if (fields.type !== undefined) {
+        if (!['active', 'frozen', 'uninit'].includes(fields.type)) {
+            throw new Error(`type must be active, frozen or uninit, got: ${fields.type}`);
+        }
+        state.type = fields.type;
+    }
+    if (fields.code) {
+        state.code = parseStateCell(fields.code, 'code');
+    }
+    if (fields.data) {
+        state.data = parseStateCell(fields.data, 'data');
+    }
+    if (state.type === 'uninit' && (state.code || state.data)) {
+        throw new Error('uninit account cannot have code or data');
+    }
+    if (fields.stateHash) {
+        if (state.type !== 'frozen') {
+            throw new Error('stateHash is only allowed for frozen accounts');
+        }
+        if (!/^[0-9a-fA-F]{64}$/.test(fields.stateHash)) {
+            throw new Error(`stateHash must be 64 hex characters: ${fields.stateHash}`);
+        }
+        state.stateHash = fields.stateHash.toLowerCase();
+    }
+    if (fields.duePayment !== undefined && fields.duePayment !== null) {
+        state.duePayment = parseBigIntArg(String(fields.duePayment));
+        if (state.duePayment < 0n) {
+            throw new Error(`duePayment must not be negative: ${fields.duePayment}`);
+        }
+    }
+    if (fields.extracurrency !== undefined && fields.extracurrency !== null) {
+        state.extraCurrencies = parseExtraCurrencies(fields.extracurrency, 'extracurrency');
+    }
+    if (fields.libraries !== undefined && fields.libraries !== null) {
+        state.libraries = parseLibraries(fields.libraries);
+    }
+
+    return state;
+}
+
+// Библиотеки { хэш: BOC }: хэш обязан совпадать с хэшем ячейки, иначе ссылка на неё не разрешится
+function parseLibraries(raw: unknown): Record<string, Cell> {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('libraries must be an object { hash: boc }');
+    }
+
+    const libraries: Record<string, Cell> = {};
+    for (const [hash, boc] of Object.entries(raw)) {
+        if (!/^[0-9a-fA-F]{64}$/.test(hash)) {
+            throw new Error(`library hash must be 64 hex characters: ${hash}`);
+        }
+        const cell = parseStateCell(String(boc), `libraries.${hash}`);
+        if (cell.hash().toString('hex') !== hash.toLowerCase()) {
+            throw new Error(`library ${hash} does not match its cell hash ${cell.hash().toString('hex')}`);
+        }
+        libraries[hash.toLowerCase()] = cell;
+    }
+    return libraries;
+}
+
+function parseStateCell(raw: string, field: string): Cell {
+    try {
+        return Cell.fromBoc(Buffer.from(raw, /^[0-9a-fA-F]+$/.test(raw) ? 'hex' : 'base64'))[0];
+    } catch {
+        throw new Error(`${field} is not a valid BOC (hex or base64)`);
+    }
+}
+
+function setSender(raw: any): Address {
+    if (typeof raw?.senderId === "number" && SENDERS_LIST[raw.senderId]) {
+      return SENDERS_LIST[raw.senderId];
+    }
+    if (typeof raw?.senderId === "number") {
+      // в детерминированном режиме кошелёк отправителя живёт по своему настоящему адресу
+      SENDERS_LIST[raw.senderId] = DETERMINISTIC
+        ? TreasuryContract.create(0, BigInt(raw.senderId)).address
+        : randomAddress();
+      return SENDERS_LIST[raw.senderId];
+    }
+
+    if (DETERMINISTIC) {
+      return new Address(0, beginCell().storeStringTail(`anonymous sender of message ${raw?.id}`).endCell().hash());
+    }
+    return randomAddress();
+}
+
+// Разбить лог TVM на шаги: стек и позиция в коде печатаются перед инструкцией, остаток газа --- после
+export function parseVmLog(log: string): VmLogStep[] {
+  const steps: VmLogStep[] = [];
+  let current: Partial<VmLogStep> & { notes: string[] } = { notes: [] };
+
+  const flush = () => {
+    if (current.instruction !== undefined) {
+      steps.push(current as VmLogStep);
+      current = { notes: [] };
+    }
+  };
+
+  for (const raw of log.split('\n')) {
+    const line = raw.trim();
+    if (line === '') {
+      continue;
+    }
+
+    if (line.startsWith('stack:')) {
+      flush();
+      current.stack = line.slice('stack:'.length).trim();
+    } else if (line.startsWith('code cell hash:')) {
+      flush();
+      current.location = line.slice('code cell hash:'.length).trim();
+    } else if (line.startsWith('execute ')) {
+      flush();
+      current.instruction = line.slice('execute '.length);
+    } else if (line.startsWith('gas remaining:')) {
+      current.gasRemaining = line.slice('gas remaining:'.length).trim();
+    } else if (current.instruction !== undefined || steps.length === 0) {
+      current.notes.push(line);
+    } else {
+      steps[steps.length - 1].notes.push(line);
+    }
   }
+  flush();
 
-  // загружаем скрипт по переданному пути
-  private async loadScript(filePath: string): Promise<void> {
-    if (!fs.existsSync(filePath)) {
-        console.error(`
-          \u001b[31m✖ File not found:\u001b[0m \u001b[33m${filePath}\u001b[0m
-            `);
-        return;
+  return steps;
+}
+
+// Меняет баланс через копию аккаунта: сеттер balance в песочнице правит объект, на который ссылаются снимки
+function adjustBalance(contract: SmartContract, delta: bigint): void {
+    const account = loadShardAccount(beginCell().store(storeShardAccount(contract.account)).endCell().beginParse());
+    if (account.account) {
+        account.account.storage.balance.coins += delta;
     }
+    contract.account = account;
+}
 
-    try {
-        let script = await fs.promises.readFile(filePath, 'utf-8');
-        
-        if (filePath.endsWith('.ts')) {
-            script = ts.transpileModule(script, {
-              compilerOptions: {
-                module: ts.ModuleKind.CommonJS,
-                target: ts.ScriptTarget.ES2020
-              }
-            }).outputText;
-        }
+// Очистить очередь исходящих сообщений песочницы. В @ton/sandbox 0.28 это protected поле Blockchain.messageQueue,
+// и публичного способа выбросить из неё неисполненные сообщения нет --- при обновлении песочницы проверить
+function dropPendingMessages(blockchain: Blockchain): void {
+    const pending = (blockchain as unknown as { messageQueue: PendingMessage[] }).messageQueue;
+    pending.splice(0, pending.length);
+}
 
-        if (/export\s+function\s+modifyQueue/.test(script)) {
-            script = script
-              .replace(/export\s+function\s+modifyQueue/, 'function modifyQueue')
-              + '\nmodule.exports.modifyQueue = modifyQueue;';
-        }
-      
-        const module = { exports: {} as Record<string, any> };
-        const wrapped =
-            `(function (exports, module, require) { ${script}\n})(module.exports, module, require);`;
-        eval(wrapped);
-      
-        if (typeof module.exports.modifyQueue !== 'function') {
-            console.error(`
-              \u001b[31m✖ Invalid script format:\u001b[0m
-              \u001b[36mScript must export function "modifyQueue(queue)"\u001b[0m
-                  `);
-            return;
-        }
-        this.scriptFn = module.exports.modifyQueue as (q: Message[]) => void;
-        console.log(`
-          \u001b[1;32m✓ Script loaded successfully!\u001b[0m
-          \u001b[36mFile:\u001b[0m \u001b[33m${filePath}\u001b[0m
-            `);
-    } catch (err) {
-      console.error(`
-        \u001b[31m✖ Failed to load script\u001b[0m
-        \u001b[33mError:\u001b[0m \u001b[37m${err instanceof Error ? err.message : String(err)}\u001b[0m
-            `);
-    }
-  }
+// Аккаунт контракта из снимка блокчейна
+function findSnapshotAccount(snapshot: BlockchainSnapshot, address: Address): ShardAccount | undefined {
+    return snapshot.contracts.find(c => c.address.equals(address))?.account;
+}
 
-  // применяем скрипт к очереди
-  private async runScript(): Promise<void> {
-      if (!this.scriptFn) {
-          console.error(`\n \u001b[31m✖ No script loaded – nothing to run\u001b[0m \n`);
-          return;
-      }
-      await this.scriptFn(this.queue);
-      console.log(`
-        \u001b[1;32m✓ Script executed successfully!\u001b[0m
-        \u001b[36mQueue modified:\u001b[0m \u001b[33m${this.queue.length}\u001b[0m messages
-        `);
-      this.showQueue();
-  }
+// Аккаунт из снимка в формате файла состояния (как в save state)
+function serializeShardAccount(shard: ShardAccount | undefined): Record<string, any> {
+    const account = shard?.account;
+    if (!shard || !account) {
+        return { type: 'uninit', balance: '0', last: null };
+    }
 
+    const state = account.storage.state;
+    return {
+        last: shard.lastTransactionLt > 0n ? {
+          lt: shard.lastTransactionLt.toString(),
+          hash: shard.lastTransactionHash.toString(16).padStart(64, '0')} : null,
+        balance: account.storage.balance.coins.toString(),
+        code: state.type === 'active' ? state.state.code?.toBoc().toString('hex') : undefined,
+        data: state.type === 'active' ? state.state.data?.toBoc().toString('hex') : undefined,
+        type: state.type,
+        stateHash: state.type === 'frozen' ? state.stateHash.toString(16).padStart(64, '0') : undefined,
+        duePayment: account.storageStats.duePayment?.toString(),
+        extracurrency: serializeExtraCurrencies(extractExtraCurrencies(account.storage.balance.other))
+    };
 }
 
-// Компиляция контракта
-async function compileContract(contractPath: string): Promise<Cell> {
-  console.log(`
-    \u001b[36m╔════════════════════════════════════════════════════╗
-    ║\u001b[1;34m          TON Contract Compilation Started          \u001b[0;36m║
-    ╚════════════════════════════════════════════════════╝\u001b[0m
-    `);
+// Дельта-отладка (ddmin): самое короткое подмножество items, на котором fails ещё true (fails(items) должно быть true).
+// Сначала пробуем оставить один кусок, потом выкинуть один кусок; при неудаче дробим мельче
+export async function ddmin<T>(items: T[], fails: (candidate: T[]) => Promise<boolean>,
+    onReduce?: (from: number, to: number) => void): Promise<T[]> {
+    let current = items;
+    let chunks = 2;
+    while (current.length >= 2) {
+        const size = Math.ceil(current.length / chunks);
+        let reduced: T[] | undefined;
+        for (let i = 0; i < current.length && !reduced; i += size) {
+            const subset = current.slice(i, i + size);
+            const complement = [...current.slice(0, i), ...current.slice(i + size)];
+            if (subset.length < current.length && await fails(subset)) {
+                reduced = subset;
+                chunks = 2;
+            } else if (complement.length > 0 && chunks > 2 && await fails(complement)) {
+                reduced = complement;
+                chunks = Math.max(chunks - 1, 2);
+            }
+        }
 
-  const compileResult = await compileFunc({
-    targets: [contractPath],
-    sources: (x) => fs.readFileSync(x).toString("utf8"),
-  });
+        if (reduced) {
+            onReduce?.(current.length, reduced.length);
+            current = reduced;
+        } else if (chunks < current.length) {
+            chunks = Math.min(chunks * 2, current.length);
+        } else {
+            break;
+        }
+    }
 
-  if (compileResult.status === "error") {
-    console.error(`
-      \u001b[1;31m✖ Compilation Failed\u001b[0m
-    
-      \u001b[33mCompiler output:\u001b[0m
-      \u001b[37m${compileResult.message}\u001b[0m
-        `);
-    throw new Error("Compilation failed");
-  }
+    // одно сообщение тоже может оказаться лишним, если fails верно и без него
+    if (current.length === 1 && await fails([])) {
+        onReduce?.(1, 0);
+        current = [];
+    }
+    return current;
+}
 
-  const codeCell = Cell.fromBoc(Buffer.from(compileResult.codeBoc, "base64"))[0];
-  console.log(`
-    \u001b[1;32m✓ Compilation successful!\u001b[0m
-    `);
-  
-  if (!fs.existsSync('tmp')) {
-    fs.mkdirSync('tmp');
-    console.log('  \u001b[33m• Created tmp directory\u001b[0m');
-  }
+// Перестановки соседей к порядку id, пока fails сохраняется: в ответе остаются только инверсии, без которых падения нет
+export async function reorderTowardsIds<T extends { id: number }>(items: T[], fails: (candidate: T[]) => Promise<boolean>): Promise<T[]> {
+    let current = items;
+    for (let swapped = true; swapped;) {
+        swapped = false;
+        for (let i = 0; i + 1 < current.length; i++) {
+            if (current[i].id < current[i + 1].id) {
+                continue;
+            }
+            const candidate = [...current];
+            [candidate[i], candidate[i + 1]] = [candidate[i + 1], candidate[i]];
+            if (await fails(candidate)) {
+                current = candidate;
+                swapped = true;
+            }
+        }
+    }
+    return current;
+}
 
-  const hexArtifact = `tmp/tondebug.compiled.json`;
+// Модуль инварианта: export function invariant(input)
+function loadInvariant(path: string): Invariant {
+    const invariant = loadUserFunction(path, 'invariant');
+    if (typeof invariant !== 'function') {
+        throw new Error(`Invariant module must export function "invariant(input)": ${path}`);
+    }
+    return invariant as Invariant;
+}
 
-  fs.writeFileSync(
-    hexArtifact,
-    JSON.stringify({
-      hex: Cell.fromBoc(Buffer.from(compileResult.codeBoc, "base64"))[0]
-        .toBoc()
-        .toString("base64"),
-    })
-  );
+// Значение флага команды (experiment --runs 10)
+function flagValue(params: string[], name: string): string | undefined {
+    const index = params.indexOf(name);
+    return index >= 0 ? params[index + 1] : undefined;
+}
 
-  console.log(`
-    \u001b[33mCompiled artifact saved to:\u001b[0m \u001b[36m${hexArtifact}\u001b[0m
-    `);
+// Ответ инварианта: true/false или { pass, reason }
+function normalizeInvariantResult(result: InvariantResult): { pass: boolean; reason?: string } {
+    return typeof result === 'boolean' ? { pass: result } : { pass: Boolean(result?.pass), reason: result?.reason };
+}
 
-  return codeCell;
+// Значение со стека геттера для инварианта: int --- bigint, slice с адресом --- строка адреса, ячейки --- base64 BOC
+function stackEntryValue(item: TupleItem, declaredType: string): unknown {
+    switch (item.type) {
+        case 'int':
+            return item.value;
+        case 'null':
+            return null;
+        case 'nan':
+            return NaN;
+        case 'tuple':
+            return item.items.map(i => stackEntryValue(i, i.type));
+        case 'slice':
+            if (declaredType === 'slice') {
+                try {
+                    const slice = item.cell.beginParse();
+                    const address = slice.loadMaybeAddress();
+                    if (slice.remainingBits === 0 && slice.remainingRefs === 0) {
+                        return address ? address.toString() : null;
+                    }
+                } catch {
+                    // не адрес --- отдаём ячейку
+                }
+            }
+            return item.cell.toBoc().toString('base64');
+        default:
+            return item.cell.toBoc().toString('base64');
+    }
 }
 
-// Начальное состояние
-async function validateInitState(path: string): Promise<ContractState> {
-  console.log(`
-    \u001b[36m╔════════════════════════════════════════════════════╗
-    ║\u001b[1;34m          Validating Contract Initial State         \u001b[0;36m║
-    ╚════════════════════════════════════════════════════╝\u001b[0m
-    `);
+// sha256 от JSON (для сравнения состояний при переборе)
+function hashJson(value: unknown): string {
+    return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
 
-  const state = JSON.parse(fs.readFileSync(path, 'utf-8'));
+// Выполнить без вывода в консоль (перебор порядков исполняет сотни сообщений)
+async function silently<T>(fn: () => Promise<T>): Promise<T> {
+    const { log, error, warn, table } = console;
+    console.log = console.error = console.warn = console.table = () => {};
+    try {
+        return await fn();
+    } finally {
+        Object.assign(console, { log, error, warn, table });
+    }
+}
 
-  const validFields = ['balance', 'code', 'data'];
-  const invalidFields = Object.keys(state).filter(
-      key => !validFields.includes(key)
-  );
-      
-  if (invalidFields.length > 0) {
-     console.error(`
-      \u001b[31m✖ Invalid fields detected:\u001b[0m \u001b[33m${invalidFields.join(', ')}\u001b[0m
-      \u001b[36mAllowed fields:\u001b[0m \u001b[35mbalance\u001b[0m, \u001b[35mcode\u001b[0m, \u001b[35mdata\u001b[0m
-          `);
-      throw new Error(`Invalid fields in state file: ${invalidFields.join(', ')}`);
+// Условие брейкпоинта человеческим языком
+function describeBreakCondition(c: BreakCondition): string {
+  switch (c.kind) {
+    case 'exit':
+      return c.code !== undefined ? `exit code == ${c.code}` : 'exit code != 0';
+    case 'message':
+      return `message id == ${c.id}`;
+    case 'name':
+      return `message name contains "${c.name}"`;
+    case 'sender':
+      return `sender == ${c.senderId}`;
+    case 'balance':
+      return `balance${c.alias ? ` of ${c.alias}` : ''} ${c.op} ${c.value}`;
+    case 'getter':
+      return `${c.method}()${c.alias ? ` of ${c.alias}` : ''} changes`;
   }
-      
-  if (!state.balance && !state.code && !state.data) {
-    console.error(`
-      \u001b[31m✖ Empty state file\u001b[0m
-      \u001b[36mState must contain at least one of:\u001b[0m
-        \u001b[35mbalance\u001b[0m, \u001b[35mcode\u001b[0m or \u001b[35mdata\u001b[0m
-          `);
-    throw new Error('State file must contain at least one of: balance, code, data');
-  } 
+}
 
-  const resultState: ContractState = {};
-  if (state.balance) {
-      resultState.balance = BigInt(state.balance);
-  }
-  if (state.code) {
-      resultState.code = Cell.fromBoc(Buffer.from(state.code, "hex"))[0];
+function compareBigInt(a: bigint, op: '<' | '<=' | '>' | '>=' | '==', b: bigint): boolean {
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '==': return a === b;
   }
-  if (state.data) {
-      resultState.data = Cell.fromBoc(Buffer.from(state.data, "base64"))[0];
+}
+
+// Элемент стека TVM строкой
+function formatTupleItem(item: TupleItem): string {
+  switch (item.type) {
+    case 'int':
+      return item.value.toString();
+    case 'cell':
+    case 'slice':
+    case 'builder':
+      return `${item.type}:${item.cell.hash().toString('hex')}`;
+    case 'tuple':
+      return `(${item.items.map(formatTupleItem).join(', ')})`;
+    default:
+      return item.type;
   }
+}
 
-  console.log(`
-    \u001b[1;32m✓ Initial state validation complete!\u001b[0m
-      `);
+// Краткая сводка по фазам транзакции: код выхода, газ, переданная сумма
+// Аргумент get-метода из консоли: int:5, address:EQ..., cell:<boc>, slice:<boc> или без типа (число / адрес / тип параметра)
+function parseGetMethodArg(raw: string, declaredType?: string): TupleItem {
+    // сырой адрес "0:abcd..." сам содержит двоеточие
+    if (Address.isRaw(raw) || Address.isFriendly(raw)) {
+        return { type: 'slice', cell: beginCell().storeAddress(Address.parse(raw)).endCell() };
+    }
 
-  return resultState;
+    const sep = raw.indexOf(':');
+    const type = sep === -1 ? '' : raw.slice(0, sep);
+    const value = sep === -1 ? raw : raw.slice(sep + 1);
+
+    switch (type) {
+        case 'int':
+            return { type: 'int', value: parseBigIntArg(value) };
+        case 'address':
+        case 'addr':
+            return { type: 'slice', cell: beginCell().storeAddress(Address.parse(value)).endCell() };
+        case 'cell':
+            return { type: 'cell', cell: parseBocArg(value) };
+        case 'slice':
+            return { type: 'slice', cell: parseBocArg(value) };
+        case '':
+            if (declaredType === 'cell' || declaredType === 'slice') {
+                return { type: declaredType, cell: parseBocArg(value) };
+            }
+            return { type: 'int', value: parseBigIntArg(value) };
+        default:
+            throw new Error(`unknown argument type "${type}" in "${raw}" (use int, address, cell or slice)`);
+    }
 }
 
-// Загружаем очередь сообщений для обработки в TON Debug Console
-async function loadMessageQueue(path: string): Promise<Message[]> {
-  console.log(`
-    \u001b[36m╔════════════════════════════════════════════════════╗
-    ║\u001b[1;34m              Loading Message Queue                 \u001b[0;36m║
-    ╚════════════════════════════════════════════════════╝\u001b[0m
-    `);
-  try {
-    if (!fs.existsSync(path)) {
-      console.error(`
-        \u001b[31m✖ Error:\u001b[0m File not found
-        \u001b[36mPlease verify the path exists:\u001b[0m
-        \u001b[33m${path}\u001b[0m
-            `);
-        throw new Error(`Queue file not found: ${path}`);
+// Целое в десятичной или 0x-записи (можно со знаком минус)
+function parseBigIntArg(value: string): bigint {
+    if (!/^-?(\d+|0x[0-9a-fA-F]+)$/.test(value)) {
+        throw new Error(`"${value}" is not an integer`);
     }
-    const messages = JSON.parse(fs.readFileSync(path, 'utf-8'));
-    if (!Array.isArray(messages)) {
-      console.error(`
-        \u001b[31m✖ Invalid format:\u001b[0m
-        \u001b[36mQueue file must contain an array of messages\u001b[0m
-            `);
-        throw new Error('Queue file must contain an array of messages');
+    return value.startsWith('-') ? -BigInt(value.slice(1)) : BigInt(value);
+}
+
+// BOC из base64 или 0x-hex
+function parseBocArg(value: string): Cell {
+    const buffer = value.startsWith('0x') ? Buffer.from(value.slice(2), 'hex') : Buffer.from(value, 'base64');
+    try {
+        return Cell.fromBoc(buffer)[0];
+    } catch {
+        throw new Error(`"${value}" is not a valid BOC`);
     }
-    const res =  messages.map((msg, i) => ({
-        id: msg.id || i + 1,
-        type: msg.type || 'internal',
-        sender: setSender(msg),
-        body: msg.body ? Cell.fromBoc(Buffer.from(msg.body, 'base64'))[0] : new Cell(),
-        value: msg.value,
-        name: msg.name
-    }));
-    console.log(`
-      \u001b[1;32m✓ Message queue loaded successfully!\u001b[0m
-        `);
-    return res;
-  } catch (err) {
-    console.error(`
-  \u001b[31m✖ Failed to load message queue:\u001b[0m \u001b[33m${err}\u001b[0m
-    `);
-    throw err;
-  }
 }
 
-// загрузка скрипта на питоне для рандомизации типа сообщения (для эксперимента)
-function getPythonScriptToGenerateMsgType(): boolean {
-  const { execSync } = require('child_process');
+// Значение элемента стека для вывода (ячейки целиком в base64)
+function formatStackEntry(item: TupleItem): string {
+    switch (item.type) {
+        case 'int':
+            return item.value.toString();
+        case 'cell':
+        case 'slice':
+        case 'builder':
+            return item.cell.toBoc().toString('base64');
+        case 'tuple':
+            return formatTupleItem(item);
+        default:
+            return item.type;
+    }
+}
 
-  const result = execSync(`python3 tmp/shuffle_type_msg.py`).toString().trim();;
-  if (result == 'True') {
-    return true;
-  }
-  return false;
+// Найти объявления get-методов в FunC исходнике
+export function parseFuncGetters(source: string): GetterSignature[] {
+    // убираем комментарии ;; ... и {- ... -}
+    const code = source.replace(/\{-[\s\S]*?-\}/g, '').replace(/;;.*$/gm, '');
+    // тензор/кортеж может содержать ещё один уровень: ((int, int), [cell, slice])
+    const type = String.raw`\((?:[^()]|\([^()]*\))*\)|\[(?:[^\[\]]|\[[^\[\]]*\])*\]|\w+`;
+    const declaration = new RegExp(String.raw`(${type})\s+([A-Za-z_][\w?!']*)\s*\(((?:[^()]|\([^()]*\))*)\)\s*(?:(?:impure|inline|inline_ref)\s+)*method_id\b`, 'g');
+
+    const getters: GetterSignature[] = [];
+    for (const match of code.matchAll(declaration)) {
+        const [, returnType, name, params] = match;
+        getters.push({
+            name,
+            returnTypes: returnType.startsWith('(') ? splitFuncTypes(returnType.slice(1, -1)) : [returnType],
+            params: splitFuncTypes(params).map(param => {
+                // имя --- последнее слово, тип --- всё перед ним (он сам может быть тензором)
+                const typed = param.match(/^(.+?)\s+([A-Za-z_][\w?!']*)$/);
+                return typed ? { type: typed[1], name: typed[2] } : { type: param, name: '' };
+            })
+        });
+    }
+    return getters;
 }
 
-// генерация рандомной очереди для эксперимента и контракта contracts/race_condition_wallet.fc
-function generateQueue(n1: number, n2: number): void {
-    const messages: GeneratedMessage[] = [];
-    let id = 1;
+// Разбить список типов FunC по запятым верхнего уровня
+export function splitFuncTypes(list: string): string[] {
+    const result: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of list) {
+        if (ch === '(' || ch === '[') depth++;
+        if (ch === ')' || ch === ']') depth--;
+        if (ch === ',' && depth === 0) {
+            result.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim() !== '') {
+        result.push(current.trim());
+    }
+    return result;
+}
 
-    // Генерация сообщений для Alice (senderId = 1)
-    for (let i = 0; i < n1; i++) {
-        const isEnlist = getPythonScriptToGenerateMsgType();
-        const body = isEnlist ? "te6ccgEBAQEABgAACAAAAAE=" : "te6ccgEBAQEABgAACAAAAAI=";
-        const value = "1000000000";
-        const name = isEnlist ? "ENLIST Alice (1 TON)" : "CLAIM Alice";
+function formatGetterSignature(getter: GetterSignature): string {
+    const returns = getter.returnTypes.length === 1 ? getter.returnTypes[0] : `(${getter.returnTypes.join(', ')})`;
+    return `${returns} ${getter.name}(${getter.params.map(p => `${p.type} ${p.name}`).join(', ')})`;
+}
 
-        messages.push({
-            id: id++,
-            type: "internal",
-            body: body,
-            value: { coins: value, extraCurrencies: null },
-            senderId: 1,
-            name: name
-        });
+// Значение элемента стека по объявленному типу: slice пробуем прочитать как адрес
+function decodeStackEntry(item: TupleItem, declaredType: string): string {
+    if (declaredType === 'slice' && item.type === 'slice') {
+        try {
+            const slice = item.cell.beginParse();
+            const address = slice.loadMaybeAddress();
+            if (slice.remainingBits === 0 && slice.remainingRefs === 0) {
+                return address ? address.toString() : 'addr_none';
+            }
+        } catch {
+            // не адрес --- выводим как есть
+        }
     }
 
-    // Генерация сообщений для Bob (senderId = 2)
-    for (let i = 0; i < n2; i++) {
-        const isEnlist = getPythonScriptToGenerateMsgType();
-        const body = isEnlist ? "te6ccgEBAQEABgAACAAAAAE=" : "te6ccgEBAQEABgAACAAAAAI=";
-        const value = "1000000000";
-        const name = isEnlist ? "ENLIST Bob (1 TON)" : "CLAIM Bob";
-
-        messages.push({
-            id: id++,
-            type: "internal",
-            body: body,
-            value: { coins: value, extraCurrencies: null },
-            senderId: 2,
-            name: name
-        });
+    if (declaredType === 'int' && item.type === 'null') {
+        return 'null';
     }
 
-    // Сохранение в JSON-файл
-    fs.writeFileSync('tmp/generated_queue.json', JSON.stringify(messages, null, 2));
-    console.log(`Сообщения сохранены в файл tmp/generated_queue.json`);
+    const expected = declaredType === 'int' || declaredType === 'cell' || declaredType === 'slice' || declaredType === 'builder' || declaredType === 'tuple'
+        ? declaredType : undefined;
+    if (expected && expected !== item.type) {
+        return `${formatStackEntry(item)} \u001b[33m(got ${item.type})\u001b[0m`;
+    }
+    return formatStackEntry(item);
 }
 
-function setSender(raw: any): Address {
-    if (typeof raw?.senderId === "number" && SENDERS_LIST[raw.senderId]) {
-      return SENDERS_LIST[raw.senderId];
-    }
-    if (typeof raw?.senderId === "number") {
-      SENDERS_LIST[raw.senderId] = randomAddress();
-      return SENDERS_LIST[raw.senderId];
+function summarizeTransaction(tx: BlockchainTransaction): {
+  exitCode?: number;
+  computeSkipped?: string;
+  actionCode?: number;
+  gasUsed?: bigint;
+  valueOut: bigint;
+} {
+  let valueOut = 0n;
+  for (const out of tx.outMessages.values()) {
+    if (out.info.type === 'internal') {
+      valueOut += out.info.value.coins;
     }
+  }
 
-    return randomAddress();
+  const description = tx.description;
+  if (description.type !== 'generic') {
+    return { valueOut };
+  }
+
+  const compute = description.computePhase;
+  return {
+    exitCode: compute.type === 'vm' ? compute.exitCode : undefined,
+    computeSkipped: compute.type === 'skipped' ? `skipped (${compute.reason})` : undefined,
+    actionCode: description.actionPhase?.resultCode,
+    gasUsed: compute.type === 'vm' ? compute.gasUsed : undefined,
+    valueOut
+  };
+}
+
+// Газ и комиссии транзакции по фазам (compute, action, forward, storage)
+function transactionCosts(tx: BlockchainTransaction): TransactionCosts {
+  const costs: TransactionCosts = { gas: 0n, computeFees: 0n, actionFees: 0n, forwardFees: 0n, storageFees: 0n };
+  const description = tx.description;
+  if (description.type !== 'generic') {
+    return costs;
+  }
+
+  if (description.computePhase.type === 'vm') {
+    costs.gas = description.computePhase.gasUsed;
+    costs.computeFees = description.computePhase.gasFees;
+  }
+  costs.actionFees = description.actionPhase?.totalActionFees ?? 0n;
+  costs.forwardFees = description.actionPhase?.totalFwdFees ?? 0n;
+  costs.storageFees = description.storagePhase?.storageFeesCollected ?? 0n;
+  return costs;
+}
+
+// op-код сообщения (первые 32 бита тела)
+function messageOp(body: Cell): string {
+  const slice = body.beginParse();
+  return slice.remainingBits >= 32 ? `0x${slice.loadUint(32).toString(16).padStart(8, '0')}` : 'none';
+}
+
+function sumBy<T>(items: T[], value: (item: T) => bigint): bigint {
+  return items.reduce((sum, item) => sum + value(item), 0n);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length - 1) + '…' : text;
 }
 
 async function main() {
@@ -1271,8 +3671,8 @@ async function main() {
       return;
   }
 
-  const contractIndex = args.indexOf('--contract');
-  if (contractIndex === -1 || contractIndex === args.length - 1) {
+  const contractArgs = collectFlagValues(args, '--contract');
+  if (contractArgs.length === 0) {
     console.error(`
       \u001b[31m╭──────────────────────────────────────────────╮
       \u001b[31m│ \u001b[1;31m✖ Error: Missing required argument           \u001b[0;31m│
@@ -1288,35 +3688,81 @@ async function main() {
       return;
   }
 
-  // Если не удалось найти контракт
-  const contractPath = args[contractIndex + 1];
-  if (!fs.existsSync(contractPath)) {
-    console.error(`
+  // Каждый контракт задаётся как name=path (или просто path --- тогда алиас это имя файла)
+  const contractPaths = contractArgs.map(parseAliasArg);
+  for (const { path: contractPath } of contractPaths) {
+    // Если не удалось найти контракт
+    if (!fs.existsSync(contractPath)) {
+      console.error(`
       \u001b[31m╭──────────────────────────────────────────────╮
       \u001b[31m│ \u001b[1;31m✖ Error: Contract file not found             \u001b[0;31m│
       \u001b[31m╰──────────────────────────────────────────────╯\u001b[0m
     
       Unable to find contract file at: \u001b[33m${contractPath}\u001b[0m
     `);
-      return;
+        return;
+    }
   }
   
   // Фиксируем начальное состояние и очередь
-  const initStateIndex = args.indexOf('--init-state');
+  const initStateArgs = collectFlagValues(args, '--init-state').map(parseAliasArg);
+  const startAsArgs = collectFlagValues(args, '--start-as').map(parseAliasArg);
   const queueIndex = args.indexOf('--queue');
-  const generateIndex = args.indexOf('--generate');
+  const configIndex = args.indexOf('--config');
+  const senderBalanceIndex = args.indexOf('--sender-balance');
+  DETERMINISTIC = args.includes('--deterministic');
+  const seedIndex = args.indexOf('--seed');
 
 
   // Работа с контрактом
   try {
-    // Компилирем контракт
-    const codeCell = await compileContract(contractPath);
-    const options: DebugConsoleOptions = {};
+    // Компилирем контракты
+    const options: DebugConsoleOptions = { contracts: [], deterministic: DETERMINISTIC };
+    for (const { alias, path: contractPath } of contractPaths) {
+        if (options.contracts.some(c => c.alias === alias)) {
+            throw new Error(`Duplicate contract alias: ${alias}`);
+        }
+        const { codeCell, getters } = await compileContract(contractPath);
+        options.contracts.push({ alias, codeCell, getters });
+    }
     
-    // Задаём начальное состояние 
-    if (initStateIndex !== -1 && initStateIndex < args.length - 1) {
-        const statePath = args[initStateIndex + 1];
-        options.initialState = await validateInitState(statePath);
+    // Задаём начальные состояния (state без алиаса относится к первому контракту)
+    for (const { alias, path: statePath, explicit } of initStateArgs) {
+        const contract = explicit
+            ? options.contracts.find(c => c.alias === alias)
+            : options.contracts[0];
+        if (!contract) {
+            throw new Error(`Unknown contract alias in --init-state: ${alias}`);
+        }
+        contract.initialState = await validateInitState(statePath);
+    }
+
+    // Контракты, которые стартуют без кода и деплоятся сообщением (без алиаса --- первый контракт)
+    for (const { alias, path: status, explicit } of startAsArgs) {
+        const contract = explicit
+            ? options.contracts.find(c => c.alias === alias)
+            : options.contracts[0];
+        if (!contract) {
+            throw new Error(`Unknown contract alias in --start-as: ${alias}`);
+        }
+        if (status !== 'uninit' && status !== 'none') {
+            throw new Error(`--start-as expects uninit or none, got: ${status}`);
+        }
+        contract.startAs = status;
+    }
+
+    // Свой конфиг блокчейна применяем при инициализации (оверлей накладывается на конфиг песочницы)
+    if (configIndex !== -1 && configIndex < args.length - 1) {
+        const configPath = args[configIndex + 1];
+        if (!fs.existsSync(configPath)) {
+            throw new Error(`Config file not found: ${configPath}`);
+        }
+        options.configPath = configPath;
+    }
+
+    // Начальный баланс кошельков отправителей (в TON)
+    if (senderBalanceIndex !== -1 && senderBalanceIndex < args.length - 1) {
+        options.senderBalance = toNano(args[senderBalanceIndex + 1]);
     }
 
     // Инициализиуем очередь
@@ -1325,16 +3771,18 @@ async function main() {
         options.initialQueue = await loadMessageQueue(queuePath);
     }
 
-    // Генерируем очередь по заданным n1 и n2 (для эксперимента)
-    if (generateIndex !== -1 && generateIndex < args.length - 2) {
-      const n1 = parseInt(args[generateIndex + 1]);
-      const n2 = parseInt(args[generateIndex + 2]);
-      generateQueue(n1, n2);
-      process.exit(0);
+    // Сид генератора (перемешивания, скрипты, experiment)
+    if (seedIndex !== -1) {
+        const seed = parseSeed(args[seedIndex + 1] ?? '');
+        if (seed === undefined) {
+            throw new Error(`--seed expects an integer in 0..4294967295, got: ${args[seedIndex + 1]}`);
+        }
+        RANDOM_STATE = seed;
     }
+    console.log(`  \u001b[33m🎲 Random seed:\u001b[0m \u001b[35m${RANDOM_STATE}\u001b[0m`);
 
     // Создаём консоль дебага
-    const debugConsole = new TONDebugConsole(options, codeCell);
+    const debugConsole = new TONDebugConsole(options);
     await debugConsole.initialize();
   } catch (err) {
       console.error(err);
@@ -1342,6 +3790,27 @@ async function main() {
   }
 }
 
+// Все значения флага, который может повторяться (--contract a --contract b)
+function collectFlagValues(args: string[], flag: string): string[] {
+  const values: string[] = [];
+  args.forEach((arg, i) => {
+    if (arg === flag && i < args.length - 1) {
+      values.push(args[i + 1]);
+    }
+  });
+  return values;
+}
+
+// Разобрать аргумент вида name=path; без имени алиас берём из имени файла
+function parseAliasArg(arg: string): { alias: string; path: string; explicit: boolean } {
+  const eq = arg.indexOf('=');
+  if (eq > 0) {
+    return { alias: arg.slice(0, eq), path: arg.slice(eq + 1), explicit: true };
+  }
+  const alias = arg.split(/[\\/]/).pop()!.replace(/\.[^.]*$/, '');
+  return { alias, path: arg, explicit: false };
+}
+
 // Помощь
 function printHelp(): void {
   console.log(`
@@ -1351,17 +3820,26 @@ function printHelp(): void {
     ╚════════════════════════════════════════════════════╝\u001b[0m
     
     \u001b[33mUsage:\u001b[0m
-      \u001b[32mtondebug\u001b[0m \u001b[35m--contract\u001b[0m \u001b[36m<path>\u001b[0m [\u001b[35m--init-state\u001b[0m \u001b[36m<path>\u001b[0m] [\u001b[35m--queue\u001b[0m \u001b[36m<path>\u001b[0m] [\u001b[35m--help\u001b[0m]
+      \u001b[32mtondebug\u001b[0m \u001b[35m--contract\u001b[0m \u001b[36m[name=]<path>\u001b[0m... [\u001b[35m--init-state\u001b[0m \u001b[36m[name=]<path>\u001b[0m...] [\u001b[35m--queue\u001b[0m \u001b[36m<path>\u001b[0m] [\u001b[35m--config\u001b[0m \u001b[36m<path>\u001b[0m] [\u001b[35m--help\u001b[0m]
     
     \u001b[33mOptions:\u001b[0m
-      \u001b[35m--contract\u001b[0m    \u001b[36m<path>\u001b[0m  \u001b[37mPath to FunC contract source file\u001b[0m
-      \u001b[35m--init-state\u001b[0m  \u001b[36m<path>\u001b[0m  \u001b[37mPath to initial state JSON file\u001b[0m
-      \u001b[35m--queue\u001b[0m       \u001b[36m<path>\u001b[0m  \u001b[37mPath to initial message queue JSON file\u001b[0m
-      \u001b[35m--help\u001b[0m                \u001b[37mShow this help message\u001b[0m
+      \u001b[35m--contract\u001b[0m    \u001b[36m[name=]<path>\u001b[0m  \u001b[37mPath to FunC contract source file (repeatable, name is the alias)\u001b[0m
+      \u001b[35m--init-state\u001b[0m  \u001b[36m[name=]<path>\u001b[0m  \u001b[37mPath to initial state JSON file for the named (or first) contract\u001b[0m
+      \u001b[35m--queue\u001b[0m       \u001b[36m<path>\u001b[0m         \u001b[37mPath to initial message queue JSON file (use "to": "<name>" in messages)\u001b[0m
+      \u001b[35m--config\u001b[0m      \u001b[36m<path>\u001b[0m         \u001b[37mBlockchain config cell (BOC, base64 or hex) or JSON overlay of gas/forwarding prices\u001b[0m
+      \u001b[35m--sender-balance\u001b[0m \u001b[36m<ton>\u001b[0m       \u001b[37mStarting balance of every sender wallet (default 1000 TON)\u001b[0m
+      \u001b[35m--deterministic\u001b[0m              \u001b[37mStateInit-derived contract address, stable senders, fixed start time\u001b[0m
+      \u001b[35m--seed\u001b[0m        \u001b[36m<N>\u001b[0m            \u001b[37mSeed of the random generator (shuffles, scripts, experiments); printed at start\u001b[0m
+      \u001b[35m--start-as\u001b[0m    \u001b[36m[name=]uninit|none\u001b[0m \u001b[37mStart the contract undeployed; a message with "deploy": true or "stateInit" deploys it\u001b[0m
+      \u001b[35m--help\u001b[0m                       \u001b[37mShow this help message\u001b[0m
     
     \u001b[33mExample:\u001b[0m
       \u001b[32mtondebug\u001b[0m \u001b[35m--contract\u001b[0m \u001b[36m./my-contract.fc\u001b[0m \u001b[35m--init-state\u001b[0m \u001b[36m./state.json\u001b[0m \u001b[35m--queue\u001b[0m \u001b[36m./messages.json\u001b[0m
+      \u001b[32mtondebug\u001b[0m \u001b[35m--contract\u001b[0m \u001b[36mwallet=./wallet.fc\u001b[0m \u001b[35m--contract\u001b[0m \u001b[36mvault=./vault.fc\u001b[0m \u001b[35m--init-state\u001b[0m \u001b[36mvault=./vault.json\u001b[0m
     `);
 }
 
-main().catch(console.error);
+// при импорте (тесты) консоль не запускаем
+if (require.main === module) {
+  main().catch(console.error);
+}